@@ -1,52 +1,131 @@
 
 import React, { useState } from 'react';
 import ImageColorizer from './components/ImageColorizer';
+import HistoryGallery from './components/HistoryGallery';
+import ResultView from './components/ResultView';
+import { useColorizationHistory } from './hooks/useColorizationHistory';
+import { usePrefersColorScheme, useThemePreference } from './hooks/useTheme';
+import { ThemeName, themeVariables } from './utils/theme';
+import { MessageKey, useTranslation } from './utils/i18n';
+import type { ColorizationResult } from './types';
 
-type ColorizationResult = {
-  originalUrl: string;
-  colorizedUrl: string;
-};
+const THEME_OPTIONS: { id: ThemeName, label: MessageKey }[] = [
+  { id: 'dark', label: 'app.theme.dark' },
+  { id: 'navy', label: 'app.theme.navy' },
+  { id: 'light', label: 'app.theme.light' },
+];
 
 export default function App() {
+  const t = useTranslation();
   const [lastResult, setLastResult] = useState<ColorizationResult | null>(null);
-  const [theme, setTheme] = useState<'black' | 'blue'>('blue');
+  const { preference, setPreference, theme } = useThemePreference();
+  const systemScheme = usePrefersColorScheme();
+  const followsSystem = preference === 'system';
+  // With "Match system" on, the radios show what the system picked; choosing one turns it off.
+  const activeTheme: ThemeName = followsSystem ? systemScheme : preference;
+  // By id: adjusting or re-running an entry replaces it, together with its object URLs.
+  const [openedId, setOpenedId] = useState<string | null>(null);
+  const history = useColorizationHistory();
+  const openedResult = history.items.find(item => item.id === openedId)?.result ?? null;
 
   const handleAnalysisResult = (result: ColorizationResult) => {
     console.log('Colorization complete:', result);
     setLastResult(result);
+    history.add(result);
+  };
+
+  // Radio group keyboard pattern: arrows move the selection, which also moves focus.
+  const handleThemeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.key === 'ArrowRight' || e.key === 'ArrowDown' ? 1 : e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? -1 : 0;
+    if (!step) return;
+    e.preventDefault();
+    const index = THEME_OPTIONS.findIndex(option => option.id === activeTheme);
+    const next = (index + step + THEME_OPTIONS.length) % THEME_OPTIONS.length;
+    setPreference(THEME_OPTIONS[next].id);
+    (e.currentTarget.children[next] as HTMLElement).focus();
+  };
+
+  const handleHistoryAdjust = (adjusted: ColorizationResult) => {
+    history.add(adjusted);
+    setOpenedId(adjusted.id);
+  };
+
+  const handleDeleteHistoryItem = (id: string) => {
+    if (id === openedId) setOpenedId(null);
+    history.remove(id);
   };
 
   return (
-    <main className={`min-h-screen w-full flex flex-col items-center justify-center p-4 font-sans text-white transition-colors duration-500 ${theme === 'black' ? 'bg-black' : 'bg-[#0a192f]'}`}>
+    <main className="min-h-screen w-full flex flex-col items-center justify-center p-4 font-sans bg-canvas text-fg transition-colors duration-500" style={themeVariables(theme)}>
       
-      <div className="absolute top-6 right-6 z-50 flex items-center gap-3">
-          <span className={`text-xs font-bold tracking-widest transition-colors duration-300 ${theme === 'black' ? 'text-white' : 'text-white/40'}`}>BLACK</span>
-          <button 
-              onClick={() => setTheme(t => t === 'black' ? 'blue' : 'black')}
-              className="relative w-14 h-7 rounded-full bg-white transition-all duration-300 focus:outline-none shadow-[0_0_10px_rgba(255,255,255,0.2)]"
-              aria-label="Toggle Theme"
-          >
-              <div className={`absolute top-1 left-1 w-5 h-5 rounded-full bg-[#0a192f] shadow-sm transform transition-transform duration-300 ${theme === 'blue' ? 'translate-x-7' : 'translate-x-0'}`} />
-          </button>
-          <span className={`text-xs font-bold tracking-widest transition-colors duration-300 ${theme === 'blue' ? 'text-white' : 'text-white/40'}`}>BLUE</span>
+      <div className="absolute top-6 right-6 z-50 flex flex-wrap items-center justify-end gap-3">
+        <button
+          type="button"
+          role="switch"
+          aria-checked={followsSystem}
+          onClick={() => setPreference(followsSystem ? systemScheme : 'system')}
+          title={t('app.matchSystemHint')}
+          className="flex items-center gap-2 text-xs font-bold tracking-widest uppercase text-fg/70 hover:text-fg rounded-full focus:outline-none focus:ring-2 focus:ring-accent"
+        >
+          <span>{t('app.matchSystem')}</span>
+          <span aria-hidden="true" className={`relative w-9 h-5 rounded-full border border-fg/30 transition-colors ${followsSystem ? 'bg-accent' : 'bg-fg/10'}`}>
+            <span className={`absolute top-0.5 left-0.5 w-3.5 h-3.5 rounded-full bg-fg transition-transform ${followsSystem ? 'translate-x-4' : ''}`} />
+          </span>
+        </button>
+        <div
+          className="flex rounded-full overflow-hidden border border-fg/20"
+          role="radiogroup"
+          aria-label={t('app.theme')}
+          onKeyDown={handleThemeKeyDown}
+        >
+          {THEME_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              role="radio"
+              aria-checked={activeTheme === option.id}
+              tabIndex={activeTheme === option.id ? 0 : -1}
+              onClick={() => setPreference(option.id)}
+              className={`px-3 py-1 text-xs font-bold tracking-widest uppercase transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-accent ${activeTheme === option.id ? 'bg-fg text-canvas' : 'text-fg/60 hover:text-fg'} ${followsSystem ? 'opacity-60' : ''}`}
+            >
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
       </div>
 
       <div className="w-full max-w-4xl mx-auto">
         <header className="text-center mb-8">
-          <h1 className="text-3xl md:text-4xl font-bold text-white">
-            Image Colorizer
+          <h1 className="text-3xl md:text-4xl font-bold text-fg">
+            {t('app.title')}
           </h1>
-          <p className="text-white mt-2 max-w-2xl mx-auto">
-            Upload a black & white image to restore its colors. Our AI pipeline uses self-supervised learning to reimagine the past.
+          <p className="text-fg mt-2 max-w-2xl mx-auto">
+            {t('app.tagline')}
           </p>
         </header>
 
         <ImageColorizer 
           onResult={handleAnalysisResult} 
+          onError={(error, file) => console.error(`Colorization failed for ${file.name}:`, error)}
           className="w-full"
           theme={theme}
         />
-        
+
+        {openedResult && (
+          <div className="mt-8 rounded-lg p-6 border border-fg/10 bg-surface">
+            <ResultView result={openedResult} onReset={() => setOpenedId(null)} resetLabel={t('app.close')} title={openedResult.fileName} onAdjust={handleHistoryAdjust} />
+          </div>
+        )}
+
+        <HistoryGallery
+          className="mt-12"
+          items={history.items}
+          usedBytes={history.usedBytes}
+          quotaBytes={history.quotaBytes}
+          error={history.error}
+          onOpen={result => setOpenedId(result.id)}
+          onDelete={handleDeleteHistoryItem}
+        />
       </div>
     </main>
   );
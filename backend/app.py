@@ -1,10 +1,19 @@
 import io
+import os
+import json
+import time
+import ssl
+import socket
+import ipaddress
+import http.client
+from urllib.parse import urljoin, urlparse
+import base64
 import cv2
 import numpy as np
 import torch
 import pathlib
-from fastapi import FastAPI, File, UploadFile, HTTPException
-from fastapi.responses import Response
+from fastapi import FastAPI, File, UploadFile, HTTPException, Request
+from fastapi.responses import Response, StreamingResponse
 from fastapi.middleware.cors import CORSMiddleware
 from PIL import Image
 from model import ColorizationSDAEUNet, lab_denormalize
@@ -18,10 +27,13 @@ app.add_middleware(
     allow_credentials=True,
     allow_methods=["*"],
     allow_headers=["*"],
+    # Lets browsers read the per-stage timings of plain PNG responses.
+    expose_headers=["Server-Timing"],
 )
 
 DEVICE = "cuda" if torch.cuda.is_available() else "cpu"
-MODEL_PATH = "colorization_sdae_unet_best.pth"
+# Point separate deployments at different checkpoints to compare them in the UI.
+MODEL_PATH = os.environ.get("COLORIZER_MODEL_PATH", "colorization_sdae_unet_best.pth")
 IMAGE_SIZE = 256
 
 # Model
@@ -54,14 +66,128 @@ except FileNotFoundError:
 except Exception as e:
     print(f"ERROR loading model: {e}")
 
-def preprocess_image(image_bytes):
+NDJSON_MEDIA_TYPE = "application/x-ndjson"
+
+# Color hint schema versions this server understands (see services/hints.ts in
+# the frontend). The current model is fully automatic, so none yet; clients
+# then skip the `hints` / `hints_mask` form fields and warn the user.
+HINT_SCHEMA_VERSIONS = []
+
+@app.get("/capabilities")
+async def capabilities():
+    return {
+        "hints": HINT_SCHEMA_VERSIONS,
+        "progress": ["ndjson"],
+        "import": ["url"],
+        "model": os.path.basename(MODEL_PATH),
+    }
+
+MAX_IMPORT_BYTES = 25 * 1024 * 1024
+MAX_IMPORT_REDIRECTS = 5
+REDIRECT_STATUSES = (301, 302, 303, 307, 308)
+
+def resolve_public_address(hostname):
+    """
+    The address to connect to for `hostname`, or None when any of its addresses
+    is loopback/private/link-local, so /fetch can't be used to probe the server's network.
+    """
+    try:
+        addresses = {info[4][0].split("%")[0] for info in socket.getaddrinfo(hostname, None)}
+    except socket.gaierror:
+        return None
+    if not addresses or not all(ipaddress.ip_address(address).is_global for address in addresses):
+        return None
+    return sorted(addresses)[0]
+
+class PinnedHTTPConnection(http.client.HTTPConnection):
+    """Connects to the address that was checked instead of resolving the host again (DNS rebinding)."""
+
+    def __init__(self, host, address, **kwargs):
+        super().__init__(host, **kwargs)
+        self.address = address
+
+    def connect(self):
+        self.sock = socket.create_connection((self.address, self.port), self.timeout)
+
+class PinnedHTTPSConnection(http.client.HTTPSConnection):
+    """Same for HTTPS; the certificate is still verified against the host name (SNI)."""
+
+    def __init__(self, host, address, **kwargs):
+        super().__init__(host, context=ssl.create_default_context(), **kwargs)
+        self.address = address
+
+    def connect(self):
+        sock = socket.create_connection((self.address, self.port), self.timeout)
+        self.sock = self._context.wrap_socket(sock, server_hostname=self.host)
+
+def open_public_url(url, timeout):
+    """
+    GETs `url`, following redirects by hand so every hop is checked like the
+    first one. Returns the open connection and its final response.
+    """
+    for _ in range(MAX_IMPORT_REDIRECTS + 1):
+        parsed = urlparse(url)
+        try:
+            port = parsed.port
+        except ValueError:
+            raise HTTPException(status_code=400, detail="URL has an invalid port")
+        if parsed.scheme not in ("http", "https") or not parsed.hostname:
+            raise HTTPException(status_code=400, detail="Only http and https URLs can be imported")
+        address = resolve_public_address(parsed.hostname)
+        if address is None:
+            raise HTTPException(status_code=400, detail="URL host is not reachable from the server")
+
+        connection_class = PinnedHTTPSConnection if parsed.scheme == "https" else PinnedHTTPConnection
+        connection = connection_class(parsed.hostname, address, port=port, timeout=timeout)
+        path = (parsed.path or "/") + (f"?{parsed.query}" if parsed.query else "")
+        try:
+            connection.request("GET", path, headers={"User-Agent": "bw-colorizer-import/1.0"})
+            res = connection.getresponse()
+        except BaseException:
+            connection.close()
+            raise
+
+        location = res.getheader("Location")
+        if res.status not in REDIRECT_STATUSES or not location:
+            return connection, res
+        connection.close()
+        url = urljoin(url, location)
+    raise HTTPException(status_code=502, detail="Source redirected too many times")
+
+@app.get("/fetch")
+def fetch_image(url: str):
+    """Downloads an image for browsers that can't fetch it themselves (no CORS headers on the source)."""
+    try:
+        connection, res = open_public_url(url, timeout=20)
+    except (http.client.HTTPException, OSError) as e:
+        raise HTTPException(status_code=502, detail=f"Could not fetch URL: {e}")
+
+    try:
+        if res.status >= 400:
+            raise HTTPException(status_code=502, detail=f"Source answered {res.status}")
+        content_type = res.headers.get_content_type()
+        if not content_type.startswith("image/"):
+            raise HTTPException(status_code=415, detail=f"URL points to {content_type}, not an image")
+        data = res.read(MAX_IMPORT_BYTES + 1)
+    except (http.client.HTTPException, OSError) as e:
+        raise HTTPException(status_code=502, detail=f"Could not fetch URL: {e}")
+    finally:
+        connection.close()
+
+    if len(data) > MAX_IMPORT_BYTES:
+        raise HTTPException(status_code=413, detail=f"Image is larger than {MAX_IMPORT_BYTES // (1024 * 1024)} MB")
+    return Response(content=data, media_type=content_type)
+
+def load_image(image_bytes):
     img = Image.open(io.BytesIO(image_bytes)).convert("RGB")
     original_size = img.size
 
     img = img.resize((IMAGE_SIZE, IMAGE_SIZE), Image.Resampling.LANCZOS)
 
     rgb = np.asarray(img).astype(np.float32) / 255.0
-    
+    return rgb, original_size
+
+def rgb_to_L_tensor(rgb):
     lab = cv2.cvtColor(rgb, cv2.COLOR_RGB2LAB).astype(np.float32)
 
     L = lab[..., 0:1]
@@ -69,37 +195,111 @@ def preprocess_image(image_bytes):
 
     L_tensor = torch.from_numpy(L_norm).permute(2, 0, 1).unsqueeze(0).float()
     
-    return L_tensor, original_size
+    return L_tensor
+
+def encode_png(rgb_out, original_size):
+    rgb_uint8 = (rgb_out * 255).astype(np.uint8)
+    
+    # Convert back to PIL to save as PNG
+    out_img = Image.fromarray(rgb_uint8)
+    
+    out_img = out_img.resize(original_size, Image.Resampling.LANCZOS)
+
+    buf = io.BytesIO()
+    out_img.save(buf, format="PNG")
+    return buf.getvalue()
+
+# Grad mode is thread-local and StreamingResponse may resume a generator on
+# another worker thread between yields, so each model step disables it itself.
+@torch.inference_mode()
+def encode(L_tensor):
+    return model.encode(L_tensor)
+
+@torch.inference_mode()
+def decode(bottleneck, skips):
+    return model.decode(bottleneck, skips)
+
+def run_pipeline(image_bytes):
+    """Runs inference step by step, yielding (stage, payload) as each stage starts.
+
+    Stage keys match the frontend STAGES: preprocessing, lab, encoder, decoder, rgb.
+    The final item is ("result", png_bytes).
+    """
+    yield "preprocessing", None
+    rgb, original_size = load_image(image_bytes)
+
+    yield "lab", None
+    L_tensor = rgb_to_L_tensor(rgb).to(DEVICE)
+
+    yield "encoder", None
+    bottleneck, skips = encode(L_tensor)
+
+    yield "decoder", None
+    ab_pred = decode(bottleneck, skips)
+
+    yield "rgb", None
+    rgb_out = lab_denormalize(L_tensor, ab_pred)[0]
+    yield "result", encode_png(rgb_out, original_size)
+
+def timed_pipeline(image_bytes, timings):
+    """run_pipeline, recording the seconds spent in each stage into `timings`."""
+    stage, started = None, time.perf_counter()
+    for item in run_pipeline(image_bytes):
+        now = time.perf_counter()
+        if stage is not None:
+            timings[stage] = round(now - started, 4)
+        stage, started = item[0], now
+        yield item
+
+def server_timing_header(timings):
+    return ", ".join(f"{stage};dur={seconds * 1000:.1f}" for stage, seconds in timings.items())
+
+def stream_pipeline(image_bytes):
+    """NDJSON progress protocol: one JSON object per line.
+
+    {"event": "stage", "stage": "<key>"} for every stage transition, then
+    {"event": "timing", "stages": {"<key>": <seconds>, ...}}, then either
+    {"event": "result", "mime": "image/png", "data": "<base64>"} or
+    {"event": "error", "detail": "<message>"}.
+    """
+    try:
+        timings = {}
+        for stage, payload in timed_pipeline(image_bytes, timings):
+            if stage == "result":
+                yield json.dumps({"event": "timing", "stages": timings}) + "\n"
+                data = base64.b64encode(payload).decode("ascii")
+                yield json.dumps({"event": "result", "mime": "image/png", "data": data}) + "\n"
+            else:
+                yield json.dumps({"event": "stage", "stage": stage}) + "\n"
+    except Exception as e:
+        import traceback
+        traceback.print_exc()
+        yield json.dumps({"event": "error", "detail": str(e)}) + "\n"
 
 @app.post("/colorize")
-async def colorize(file: UploadFile = File(...)):
+async def colorize(request: Request, file: UploadFile = File(...)):
     if not file.content_type.startswith("image/"):
         raise HTTPException(status_code=400, detail="File must be an image")
     
+    contents = await file.read()
     try:
-        contents = await file.read()
-        L_tensor, original_size = preprocess_image(contents)
-        L_tensor = L_tensor.to(DEVICE)
-        
-        with torch.no_grad():
-            # Inference
-            ab_pred = model(L_tensor)
-            
-            rgb_out = lab_denormalize(L_tensor, ab_pred)
-            
-        rgb_out = rgb_out[0]
-        rgb_uint8 = (rgb_out * 255).astype(np.uint8)
-        
-        # Convert back to PIL to save as PNG
-        out_img = Image.fromarray(rgb_uint8)
-        
-        out_img = out_img.resize(original_size, Image.Resampling.LANCZOS)
+        Image.open(io.BytesIO(contents)).verify()
+    except Exception:
+        raise HTTPException(status_code=400, detail="File is not a readable image")
 
-        buf = io.BytesIO()
-        out_img.save(buf, format="PNG")
-        buf.seek(0)
+    # Clients that understand the progress protocol ask for it explicitly;
+    # everyone else keeps getting a plain PNG.
+    if NDJSON_MEDIA_TYPE in request.headers.get("accept", ""):
+        return StreamingResponse(stream_pipeline(contents), media_type=NDJSON_MEDIA_TYPE)
+
+    try:
+        png = None
+        timings = {}
+        for stage, payload in timed_pipeline(contents, timings):
+            if stage == "result":
+                png = payload
         
-        return Response(content=buf.getvalue(), media_type="image/png")
+        return Response(content=png, media_type="image/png", headers={"Server-Timing": server_timing_header(timings)})
         
     except Exception as e:
         import traceback
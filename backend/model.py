@@ -61,7 +61,7 @@ class ColorizationSDAEUNet(nn.Module):
 
         self.out_conv = nn.Conv2d(base_ch, out_ch, kernel_size=1)
 
-    def forward(self, x):
+    def encode(self, x):
         # Encoder
         e1 = self.enc1(x)            
         p1 = self.pool(e1)           
@@ -77,6 +77,10 @@ class ColorizationSDAEUNet(nn.Module):
 
         # Bottleneck
         b = self.bottleneck(p4)      
+        return b, (e1, e2, e3, e4)
+
+    def decode(self, b, skips):
+        e1, e2, e3, e4 = skips
 
         # Decoder
         d4 = self.up4(b, e4)         
@@ -87,6 +91,10 @@ class ColorizationSDAEUNet(nn.Module):
         out_ab = self.out_conv(d1)   
         return out_ab
 
+    def forward(self, x):
+        b, skips = self.encode(x)
+        return self.decode(b, skips)
+
 def lab_denormalize(L: torch.Tensor, ab: torch.Tensor):
 
     L_np = L.detach().cpu().numpy()
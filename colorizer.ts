@@ -0,0 +1,56 @@
+// Public entry point for embedding the colorizer: the ready-made component,
+// the headless hook for custom UIs, backend clients and the shared types.
+export { default as ImageColorizer } from './components/ImageColorizer';
+export type { ImageColorizerProps, StageDefinition } from './components/ImageColorizer';
+export { default as ResultView } from './components/ResultView';
+
+export { useColorizer } from './hooks/useColorizer';
+export type { Colorizer, ColorInputChoice, UseColorizerOptions, HintSupport } from './hooks/useColorizer';
+export { PIPELINE_STAGES, DEFAULT_STAGE_DURATIONS, resolveStageDurations } from './services/pipeline';
+export type { PipelineStage } from './services/pipeline';
+
+export {
+  ColorizerClientContext,
+  ColorizerError,
+  createHttpColorizerClient,
+  createInMemoryColorizerClient,
+} from './services/colorizerClient';
+export type {
+  ColorizeOptions,
+  ColorizerCapabilities,
+  ColorizerClient,
+  ColorizerErrorKind,
+  ColorizerStage,
+  HttpColorizerConfig,
+  StageTimings,
+} from './services/colorizerClient';
+export { createSimulatedColorizerClient } from './services/simulatedColorizer';
+export { compareBackends } from './services/compare';
+export type { CompareEndpoint } from './services/compare';
+export { filesFromClipboard, importImageFromUrl, validateImageFiles } from './services/imageSources';
+export type { ImageSelection } from './services/imageSources';
+export { DEFAULT_PREPROCESS_OPTIONS, ImageRejectedError, desaturateImage, prepareImage } from './services/preprocess';
+export type { ImageRejectionReason, PreparedImage, PreprocessOptions } from './services/preprocess';
+export { HISTOGRAM_BINS, LOW_CHROMA_THRESHOLD, LUMINANCE_SHIFT_THRESHOLD, computeDiagnostics } from './services/diagnostics';
+export { DEFAULT_CACHE_QUOTA_BYTES, clearResultCache, computeCacheKey } from './services/resultCache';
+export type { ColorHints, ColorHintPoint, ColorHintsPayload } from './services/hints';
+
+export { computePipelineLayout, splitLabel } from './utils/pipelineLayout';
+export type { PipelineLayout, PipelineNodeLayout, PipelineOrientation } from './utils/pipelineLayout';
+export { THEMES, resolveTheme, themeVariables } from './utils/theme';
+export type { ColorizerTheme, ThemeName } from './utils/theme';
+export { CATALOGS, LocaleContext, SUPPORTED_LOCALES, createTranslator, describeError, detectLocale, resolveLocale, stageLabel, useTranslation } from './utils/i18n';
+export type { Locale, Message, MessageCatalog, MessageKey, MessageParams, Translator } from './utils/i18n';
+
+export type {
+  AnimationInfo,
+  BatchItem,
+  BatchItemStatus,
+  ColorizationDiagnostics,
+  ColorizationMode,
+  ColorizationResult,
+  ComparisonEntry,
+  DiagnosticFlag,
+  ProgressReport,
+  Status,
+} from './types';
@@ -0,0 +1,226 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import type { ColorizationResult } from '../types';
+import { Adjustments, DEFAULT_ADJUSTMENTS, applyAdjustments, isDefaultAdjustments } from '../utils/adjustments';
+import { computeDiagnostics } from '../services/diagnostics';
+import { MessageKey, useTranslation } from '../utils/i18n';
+
+interface AdjustmentEditorProps {
+  result: ColorizationResult;
+  onApply: (adjusted: ColorizationResult) => void;
+  onCancel: () => void;
+}
+
+interface EditHistory {
+  past: Adjustments[];
+  present: Adjustments;
+  future: Adjustments[];
+}
+
+const PREVIEW_MAX_SIDE = 720;
+/** Consecutive edits of the same control within this window form one undo step. */
+const COALESCE_MS = 600;
+const APPLY_STRIP_ROWS = 128;
+
+const CONTROLS: { key: keyof Adjustments, label: MessageKey, min: number, max: number, step: number, format: (v: number) => string }[] = [
+  { key: 'chroma', label: 'adjust.chroma', min: 0, max: 2, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+  { key: 'hue', label: 'adjust.hue', min: -180, max: 180, step: 1, format: v => `${v}°` },
+  { key: 'warmth', label: 'adjust.warmth', min: -40, max: 40, step: 1, format: v => (v > 0 ? `+${v}` : `${v}`) },
+  { key: 'aOffset', label: 'adjust.aOffset', min: -30, max: 30, step: 1, format: v => (v > 0 ? `+${v}` : `${v}`) },
+  { key: 'bOffset', label: 'adjust.bOffset', min: -30, max: 30, step: 1, format: v => (v > 0 ? `+${v}` : `${v}`) },
+  { key: 'strength', label: 'adjust.strength', min: 0, max: 1, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+];
+
+async function loadImageData(url: string, width: number, height: number): Promise<ImageData> {
+  const bitmap = await createImageBitmap(await fetch(url).then(res => res.blob()));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Lab-space correction panel for a finished colorization. The preview works on
+ * a downscaled copy; "Apply" renders the full-size image once.
+ */
+const AdjustmentEditor: React.FC<AdjustmentEditorProps> = ({ result, onApply, onCancel }) => {
+  const t = useTranslation();
+  const [history, setHistory] = useState<EditHistory>(() => ({ past: [], present: result.adjustments ?? DEFAULT_ADJUSTMENTS, future: [] }));
+  const [isApplying, setIsApplying] = useState(false);
+  const [loadError, setLoadError] = useState<MessageKey | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const preview = useRef<{ colorized: ImageData, original: ImageData } | null>(null);
+  const lastEdit = useRef<{ key: keyof Adjustments, at: number } | null>(null);
+  const frame = useRef(0);
+  const adj = history.present;
+  // Latest settings, for the preview that renders once the images have loaded.
+  const adjRef = useRef(adj);
+  adjRef.current = adj;
+  const sourceUrl = result.unadjustedUrl ?? result.colorizedUrl;
+
+  const renderPreview = useCallback((adjustments: Adjustments) => {
+    cancelAnimationFrame(frame.current);
+    frame.current = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      if (!canvas || !preview.current) return;
+      const { colorized, original } = preview.current;
+      const working = new ImageData(new Uint8ClampedArray(colorized.data), colorized.width, colorized.height);
+      applyAdjustments(working, original, adjustments);
+      canvas.getContext('2d')!.putImageData(working, 0, 0);
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const scale = Math.min(1, PREVIEW_MAX_SIDE / Math.max(result.width, result.height));
+    const width = Math.max(1, Math.round(result.width * scale));
+    const height = Math.max(1, Math.round(result.height * scale));
+
+    Promise.all([loadImageData(sourceUrl, width, height), loadImageData(result.originalUrl, width, height)])
+      .then(([colorized, original]) => {
+        if (cancelled || !canvasRef.current) return;
+        canvasRef.current.width = width;
+        canvasRef.current.height = height;
+        preview.current = { colorized, original };
+        renderPreview(adjRef.current);
+      })
+      .catch(e => {
+        console.error(e);
+        if (!cancelled) setLoadError('adjust.loadFailed');
+      });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame.current);
+    };
+  }, [result, sourceUrl, renderPreview]);
+
+  useEffect(() => renderPreview(adj), [adj, renderPreview]);
+
+  const update = (key: keyof Adjustments, value: number) => {
+    const now = Date.now();
+    const coalesce = lastEdit.current?.key === key && now - lastEdit.current.at < COALESCE_MS;
+    lastEdit.current = { key, at: now };
+    setHistory(prev => ({
+      past: coalesce ? prev.past : [...prev.past, prev.present],
+      present: { ...prev.present, [key]: value },
+      future: [],
+    }));
+  };
+
+  const undo = () => {
+    lastEdit.current = null;
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+    });
+  };
+
+  const redo = () => {
+    lastEdit.current = null;
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+    });
+  };
+
+  const reset = () => {
+    lastEdit.current = null;
+    setHistory(prev => isDefaultAdjustments(prev.present) ? prev : { past: [...prev.past, prev.present], present: DEFAULT_ADJUSTMENTS, future: [] });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' && e.key.toLowerCase() !== 'y') return;
+    e.preventDefault();
+    if (e.key.toLowerCase() === 'y' || e.shiftKey) redo();
+    else undo();
+  };
+
+  const apply = async () => {
+    setIsApplying(true);
+    try {
+      const { width, height } = result;
+      const [colorized, original] = await Promise.all([
+        loadImageData(sourceUrl, width, height),
+        loadImageData(result.originalUrl, width, height),
+      ]);
+      // Strip by strip, yielding in between, so large scans don't lock up the page.
+      for (let row = 0; row < height; row += APPLY_STRIP_ROWS) {
+        applyAdjustments(colorized, original, adj, row, Math.min(height, row + APPLY_STRIP_ROWS));
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+      const canvas = new OffscreenCanvas(width, height);
+      canvas.getContext('2d')!.putImageData(colorized, 0, 0);
+      const blob = await canvas.convertToBlob({ type: 'image/png' });
+      const originalBlob = await fetch(result.originalUrl).then(res => res.blob());
+      const diagnostics = await computeDiagnostics(originalBlob, blob).catch(() => undefined);
+      onApply({
+        ...result,
+        colorizedUrl: URL.createObjectURL(blob),
+        unadjustedUrl: sourceUrl,
+        createdAt: Date.now(),
+        adjustments: isDefaultAdjustments(adj) ? undefined : adj,
+        diagnostics,
+      });
+    } catch (e) {
+      console.error(e);
+      setLoadError('adjust.applyFailed');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl grid md:grid-cols-[1fr_280px] gap-6 text-left" onKeyDown={handleKeyDown} role="region" aria-label={t('adjust.label')}>
+      <div className="flex items-center justify-center rounded-lg border border-fg/20 bg-canvas/40 p-2 min-h-[240px]">
+        {loadError
+          ? <p role="alert" className="text-red-300 text-sm">{t(loadError)}</p>
+          : <canvas ref={canvasRef} className="max-w-full max-h-[60vh] rounded" aria-label={t('adjust.preview')} />}
+      </div>
+
+      <div className="flex flex-col gap-4">
+        {CONTROLS.map(control => (
+          <label key={control.key} className="block">
+            <span className="flex justify-between text-xs uppercase tracking-widest text-fg/70 mb-1">
+              <span>{t(control.label)}</span>
+              <span className="font-mono text-accent">{control.format(adj[control.key])}</span>
+            </span>
+            <input
+              type="range"
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              value={adj[control.key]}
+              onChange={e => update(control.key, Number(e.target.value))}
+              className="w-full accent-accent"
+            />
+          </label>
+        ))}
+
+        <div className="flex gap-2">
+          <EditorButton onClick={undo} disabled={history.past.length === 0} title={t('adjust.undoTitle')}>{t('adjust.undo')}</EditorButton>
+          <EditorButton onClick={redo} disabled={history.future.length === 0} title={t('adjust.redoTitle')}>{t('adjust.redo')}</EditorButton>
+          <EditorButton onClick={reset} disabled={isDefaultAdjustments(adj)}>{t('adjust.reset')}</EditorButton>
+        </div>
+        <div className="flex gap-2 mt-2">
+          <button type="button" onClick={onCancel} className="flex-1 px-4 py-2 rounded-lg border border-fg/20 text-fg font-bold hover:bg-fg/10 transition-colors focus:outline-none focus:ring-2 focus:ring-fg/60">
+            {t('common.cancel')}
+          </button>
+          <button type="button" onClick={apply} disabled={isApplying || !!loadError} className="flex-1 px-4 py-2 rounded-lg bg-accent text-on-accent font-bold hover:bg-accent/90 transition-colors disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-accent">
+            {t(isApplying ? 'adjust.applying' : 'adjust.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const EditorButton: React.FC<{ onClick: () => void, disabled?: boolean, title?: string, children: React.ReactNode }> = ({ onClick, disabled, title, children }) => (
+  <button type="button" onClick={onClick} disabled={disabled} title={title} className="flex-1 px-3 py-1.5 rounded-lg border border-fg/20 text-fg text-xs font-bold uppercase tracking-widest hover:bg-fg/10 transition-colors disabled:opacity-30 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-accent">
+    {children}
+  </button>
+);
+
+export default AdjustmentEditor;
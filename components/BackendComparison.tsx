@@ -0,0 +1,176 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import type { ComparisonEntry } from '../types';
+import { CompareEndpoint, MIN_COMPARE_ENDPOINTS, isUsableEndpoint } from '../services/compare';
+import { useTranslation } from '../utils/i18n';
+import { IDENTITY, ImageLayer, Pane, PaneLabel, ToolbarButton, ViewTransform, ZOOM_STEP, zoomAround } from './ComparisonViewer';
+
+const formatLatency = (ms: number) => `${(ms / 1000).toFixed(2)} s`;
+
+interface CompareEndpointsEditorProps {
+  endpoints: CompareEndpoint[];
+  onChange: (endpoints: CompareEndpoint[]) => void;
+}
+
+/** Rows of name + base URL; host-provided client endpoints are listed but not editable. */
+export const CompareEndpointsEditor: React.FC<CompareEndpointsEditorProps> = ({ endpoints, onChange }) => {
+  const t = useTranslation();
+  const update = (index: number, patch: Partial<CompareEndpoint>) =>
+    onChange(endpoints.map((endpoint, i) => i === index ? { ...endpoint, ...patch } : endpoint));
+  const usableCount = endpoints.filter(isUsableEndpoint).length;
+
+  return (
+    <fieldset className="w-full max-w-xl mt-4 p-4 rounded-lg border border-fg/20 text-left">
+      <legend className="px-2 text-xs uppercase tracking-widest text-fg/70">{t('compare.backends')}</legend>
+      <ul className="flex flex-col gap-2">
+        {endpoints.map((endpoint, i) => (
+          <li key={i} className="flex flex-wrap sm:flex-nowrap gap-2 items-center">
+            <input value={endpoint.name} onChange={e => update(i, { name: e.target.value })} placeholder={t('compare.name')} aria-label={t('compare.nameLabel', { index: i + 1 })} className="w-full sm:w-36 px-3 py-1.5 rounded-lg border border-fg/20 bg-canvas text-fg text-sm placeholder:text-fg/40 focus:outline-none focus:ring-2 focus:ring-accent" />
+            {endpoint.client
+              ? <span className="flex-1 text-fg/50 text-sm font-mono truncate">{endpoint.client.id}</span>
+              : <input type="url" value={endpoint.url ?? ''} onChange={e => update(i, { url: e.target.value })} placeholder="https://checkpoint-b.example.com" aria-label={t('compare.urlLabel', { index: i + 1 })} className="flex-1 min-w-0 px-3 py-1.5 rounded-lg border border-fg/20 bg-canvas text-fg text-sm placeholder:text-fg/40 focus:outline-none focus:ring-2 focus:ring-accent" />}
+            <button type="button" onClick={() => onChange(endpoints.filter((_, j) => j !== i))} aria-label={t('compare.remove', { index: i + 1 })} className="px-2.5 py-1.5 rounded-lg border border-fg/20 text-fg text-sm hover:bg-fg/10 focus:outline-none focus:ring-2 focus:ring-accent">
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-3">
+        <button type="button" onClick={() => onChange([...endpoints, { name: '', url: '' }])} className="px-3 py-1.5 rounded-lg border border-fg/20 text-fg text-xs font-bold uppercase tracking-widest hover:bg-fg/10 focus:outline-none focus:ring-2 focus:ring-accent">
+          {t('compare.add')}
+        </button>
+        {usableCount < MIN_COMPARE_ENDPOINTS && (
+          <p className="text-amber-300 text-xs">{t('compare.needMore', { count: MIN_COMPARE_ENDPOINTS })}</p>
+        )}
+      </div>
+    </fieldset>
+  );
+};
+
+interface BackendComparisonProps {
+  file: File | null;
+  entries: ComparisonEntry[];
+  isRunning: boolean;
+  onPick: (id: string) => void;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Grid with the original and every backend's output. All panes share one
+ * zoom/pan transform, so the same detail can be inspected across checkpoints.
+ */
+const BackendComparison: React.FC<BackendComparisonProps> = ({ file, entries, isRunning, onPick, onReset, onCancel }) => {
+  const t = useTranslation();
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const dragFrom = useRef<{ x: number, y: number } | null>(null);
+  const finished = entries.filter(entry => entry.status === 'done');
+  const fastest = Math.min(...finished.map(entry => entry.latencyMs ?? Infinity));
+
+  const zoomBy = useCallback((factor: number, px = 0, py = 0) => {
+    setView(prev => zoomAround(prev, prev.scale * factor, px, py));
+  }, []);
+
+  const handleWheel = useCallback((e: WheelEvent, pane: Element) => {
+    e.preventDefault();
+    const rect = pane.getBoundingClientRect();
+    zoomBy(Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left - rect.width / 2, e.clientY - rect.top - rect.height / 2);
+  }, [zoomBy]);
+
+  const paneProps = {
+    sizeClassName: 'h-64 md:h-72',
+    onWheelZoom: handleWheel,
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragFrom.current = { x: e.clientX, y: e.clientY };
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+      const from = dragFrom.current;
+      if (!from) return;
+      setView(prev => ({ ...prev, x: prev.x + e.clientX - from.x, y: prev.y + e.clientY - from.y }));
+      dragFrom.current = { x: e.clientX, y: e.clientY };
+    },
+    onPointerUp: () => { dragFrom.current = null; },
+    onPointerCancel: () => { dragFrom.current = null; },
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case '+': case '=': zoomBy(ZOOM_STEP); break;
+      case '-': case '_': zoomBy(1 / ZOOM_STEP); break;
+      case '0': setView(IDENTITY); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    setView(IDENTITY);
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setOriginalUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return (
+    <div className="flex flex-col items-center w-full" role="region" aria-label={t('compare.label')}>
+      <h2 className="text-2xl font-bold tracking-wider text-fg mb-2">{t(isRunning ? 'compare.running' : 'compare.pick')}</h2>
+      <p aria-live="polite" className="text-fg/70 text-sm mb-4">
+        {t('compare.finished', { finished: finished.length, count: entries.length })}
+      </p>
+
+      <div className="flex flex-wrap items-center justify-center gap-2 mb-4" role="toolbar" aria-label={t('common.zoomControls')}>
+        <ToolbarButton onClick={() => zoomBy(1 / ZOOM_STEP)} title={t('common.zoomOut')}>−</ToolbarButton>
+        <span className="text-fg/70 text-xs font-mono w-14 text-center">{Math.round(view.scale * 100)}%</span>
+        <ToolbarButton onClick={() => zoomBy(ZOOM_STEP)} title={t('common.zoomIn')}>+</ToolbarButton>
+        <ToolbarButton onClick={() => setView(IDENTITY)} title={t('common.fitTitle')}>{t('common.fit')}</ToolbarButton>
+      </div>
+
+      <div
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="w-full grid gap-4 sm:grid-cols-2 lg:grid-cols-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+        aria-label={t('compare.instructions')}
+      >
+        {originalUrl && (
+          <figure>
+            <Pane {...paneProps}>
+              <ImageLayer src={originalUrl} alt={t('common.originalAlt')} view={view} grayscale pixelated={false} />
+              <PaneLabel side="left">{t('common.original')}</PaneLabel>
+            </Pane>
+          </figure>
+        )}
+        {entries.map(entry => (
+          <figure key={entry.id} className="flex flex-col">
+            <Pane {...paneProps}>
+              {entry.result && <ImageLayer src={entry.result.colorizedUrl} alt={t('compare.outputAlt', { name: entry.name })} view={view} grayscale={false} pixelated={false} />}
+              {entry.status !== 'done' && (
+                <div className={`absolute inset-0 flex items-center justify-center p-4 text-sm text-center ${entry.status === 'failed' ? 'text-red-300' : 'text-fg/60'}`}>
+                  {entry.status === 'failed' ? entry.error : t(entry.status === 'processing' ? 'compare.colorizing' : 'compare.queued')}
+                </div>
+              )}
+              <PaneLabel side="left">{entry.name}</PaneLabel>
+            </Pane>
+            <figcaption className="flex items-center justify-between gap-2 mt-2">
+              <span className="text-fg/70 text-xs font-mono truncate" title={entry.backendId}>
+                {entry.latencyMs !== undefined ? formatLatency(entry.latencyMs) : '—'}
+                {entry.latencyMs === fastest && finished.length > 1 && <span className="ml-2 text-accent uppercase tracking-widest">{t('compare.fastest')}</span>}
+              </span>
+              <button type="button" onClick={() => onPick(entry.id)} disabled={entry.status !== 'done'} className="px-3 py-1.5 rounded-lg bg-accent text-on-accent text-xs font-bold uppercase tracking-widest hover:bg-accent/90 disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-accent">
+                {t('compare.pickThis')}
+              </button>
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-3 mt-8">
+        {isRunning
+          ? <button type="button" onClick={onCancel} className="px-5 py-1.5 text-sm font-medium text-fg/80 border border-fg/20 rounded-lg hover:bg-fg/10 hover:text-fg transition-colors focus:outline-none focus:ring-2 focus:ring-fg/60">{t('common.cancel')}</button>
+          : <button type="button" onClick={onReset} className="px-8 py-2.5 bg-fg text-canvas font-bold rounded-lg hover:bg-fg/80 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-fg">{t('common.chooseAnother')}</button>}
+      </div>
+    </div>
+  );
+};
+
+export default BackendComparison;
@@ -0,0 +1,112 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { captureFileName } from '../services/imageSources';
+import { MessageKey, useTranslation } from '../utils/i18n';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+}
+
+const canUseCamera = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+function describeCameraError(e: unknown): MessageKey {
+  const name = e instanceof DOMException ? e.name : '';
+  if (name === 'NotAllowedError') return 'camera.denied';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'camera.notFound';
+  if (name === 'NotReadableError') return 'camera.busy';
+  return 'camera.failed';
+}
+
+/**
+ * Takes a still from a webcam, phone camera or a document scanner that shows
+ * up as a video device. Prefers the rear camera on phones; every video input
+ * can be picked once permission has been granted (device labels are hidden
+ * before that).
+ */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const t = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(canUseCamera() ? null : 'camera.unsupported');
+
+  useEffect(() => {
+    if (!canUseCamera()) return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+
+    navigator.mediaDevices
+      .getUserMedia({ video: deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment', width: { ideal: 1920 } } })
+      .then(async started => {
+        if (cancelled) {
+          started.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = started;
+        setError(null);
+        if (videoRef.current) {
+          videoRef.current.srcObject = started;
+          await videoRef.current.play().catch(() => {});
+        }
+        const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'videoinput');
+        if (!cancelled) setDevices(inputs);
+      })
+      .catch(e => {
+        if (!cancelled) setError(describeCameraError(e));
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [deviceId]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (blob) onCapture(new File([blob], captureFileName(blob.type), { type: blob.type }));
+    }, 'image/png');
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center" role="region" aria-label={t('camera.label')}>
+      <h2 className="text-2xl font-bold tracking-wider text-fg mb-4">{t('camera.title')}</h2>
+
+      {error ? (
+        <p role="alert" className="mb-4 px-4 py-2 rounded-lg bg-red-500/15 border border-red-400/40 text-red-200 text-sm max-w-lg text-center">{t(error)}</p>
+      ) : (
+        <div className="relative max-w-full rounded-lg overflow-hidden border border-fg/20 bg-fg/5 min-h-48">
+          <video ref={videoRef} muted playsInline onLoadedData={() => setIsReady(true)} className="block max-w-full max-h-[55vh]" aria-label={t('camera.preview')} />
+        </div>
+      )}
+
+      {devices.length > 1 && (
+        <label className="mt-4 flex items-center gap-2 text-xs uppercase tracking-widest text-fg/70">
+          {t('camera.device')}
+          <select value={deviceId ?? ''} onChange={e => setDeviceId(e.target.value || null)} className="px-2 py-1 rounded border border-fg/20 bg-canvas text-fg normal-case tracking-normal text-sm focus:outline-none focus:ring-2 focus:ring-accent">
+            <option value="">{t('camera.default')}</option>
+            {devices.map((device, i) => <option key={device.deviceId} value={device.deviceId}>{device.label || t('camera.numbered', { index: i + 1 })}</option>)}
+          </select>
+        </label>
+      )}
+
+      <div className="flex flex-wrap justify-center gap-3 mt-6">
+        <button type="button" onClick={onCancel} className="px-6 py-2.5 rounded-lg border border-fg/20 text-fg font-bold hover:bg-fg/10 transition-colors focus:outline-none focus:ring-2 focus:ring-fg/60">
+          {t('common.cancel')}
+        </button>
+        <button type="button" onClick={capture} disabled={!!error || !isReady} className="px-6 py-2.5 bg-accent text-on-accent font-bold rounded-lg hover:bg-accent/90 transition-all disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-accent">
+          {t('camera.capture')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
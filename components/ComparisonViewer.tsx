@@ -0,0 +1,349 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { MessageKey, useTranslation } from '../utils/i18n';
+
+type ComparisonMode = 'split' | 'flicker' | 'side-by-side';
+
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface ComparisonViewerProps {
+  originalUrl: string;
+  colorizedUrl: string;
+  initialMode?: ComparisonMode;
+  className?: string;
+  /** Alt text of the two images; describe the picture, not just its role. */
+  originalAlt?: string;
+  colorizedAlt?: string;
+}
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 32;
+export const ZOOM_STEP = 1.25;
+const PAN_STEP = 40;
+const FLICKER_INTERVAL_MS = 600;
+export const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/**
+ * Zooms `view` to `nextScale` while keeping the point `(px, py)` — given relative
+ * to the pane centre, which is the transform origin — fixed on screen.
+ */
+export function zoomAround(view: ViewTransform, nextScale: number, px = 0, py = 0): ViewTransform {
+  const scale = clampScale(nextScale);
+  const ratio = scale / view.scale;
+  return {
+    scale,
+    x: px - (px - view.x) * ratio,
+    y: py - (py - view.y) * ratio,
+  };
+}
+
+const MODES: { id: ComparisonMode, label: MessageKey }[] = [
+  { id: 'split', label: 'viewer.split' },
+  { id: 'flicker', label: 'viewer.flicker' },
+  { id: 'side-by-side', label: 'viewer.sideBySide' },
+];
+
+/**
+ * Before/after inspector for a colorization result. Both images always share
+ * one zoom/pan transform, so whatever region is inspected lines up exactly.
+ */
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({
+  originalUrl,
+  colorizedUrl,
+  initialMode = 'split',
+  className = '',
+  originalAlt,
+  colorizedAlt,
+}) => {
+  const t = useTranslation();
+  const [mode, setMode] = useState<ComparisonMode>(initialMode);
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const [split, setSplit] = useState(50);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [autoFlicker, setAutoFlicker] = useState(false);
+  const [isPixelMode, setIsPixelMode] = useState(false);
+  const [naturalSize, setNaturalSize] = useState<{ width: number, height: number } | null>(null);
+
+  const paneRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef<Map<number, { x: number, y: number }>>(new Map());
+  const pinchDistance = useRef<number | null>(null);
+  const draggingSplit = useRef(false);
+
+  useEffect(() => {
+    if (!autoFlicker || mode !== 'flicker') return;
+    const interval = setInterval(() => setShowOriginal(prev => !prev), FLICKER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [autoFlicker, mode]);
+
+  /** Scale at which one image pixel covers one device pixel. */
+  const oneToOneScale = useCallback(() => {
+    const pane = paneRef.current;
+    if (!pane || !naturalSize) return 1;
+    const { width, height } = pane.getBoundingClientRect();
+    const aspect = naturalSize.width / naturalSize.height;
+    const fittedWidth = Math.min(width, height * aspect);
+    return naturalSize.width / (fittedWidth * (window.devicePixelRatio || 1));
+  }, [naturalSize]);
+
+  const togglePixelMode = useCallback(() => {
+    if (isPixelMode) {
+      setView(IDENTITY);
+      setIsPixelMode(false);
+    } else {
+      setView(prev => zoomAround(prev, oneToOneScale(), 0, 0));
+      setIsPixelMode(true);
+    }
+  }, [isPixelMode, oneToOneScale]);
+
+  const zoomBy = useCallback((factor: number, px = 0, py = 0) => {
+    setIsPixelMode(false);
+    setView(prev => zoomAround(prev, prev.scale * factor, px, py));
+  }, []);
+
+  const resetView = () => {
+    setIsPixelMode(false);
+    setView(IDENTITY);
+  };
+
+  /** Pointer position relative to the centre of the pane it happened in. */
+  const relativeToPaneCentre = (clientX: number, clientY: number, pane: Element) => {
+    const rect = pane.getBoundingClientRect();
+    return { px: clientX - rect.left - rect.width / 2, py: clientY - rect.top - rect.height / 2 };
+  };
+
+  const handleWheel = useCallback((e: WheelEvent, pane: Element) => {
+    e.preventDefault();
+    const { px, py } = relativeToPaneCentre(e.clientX, e.clientY, pane);
+    zoomBy(Math.exp(-e.deltaY * 0.0015), px, py);
+  }, [zoomBy]);
+
+  const updateSplitFromPointer = (clientX: number, pane: Element) => {
+    const rect = pane.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    draggingSplit.current = (e.target as Element).closest('[data-split-handle]') !== null;
+    pinchDistance.current = null;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    const pane = e.currentTarget;
+
+    if (draggingSplit.current) {
+      updateSplitFromPointer(e.clientX, pane);
+      return;
+    }
+
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const active = [...pointers.current.values()];
+
+    if (active.length >= 2) {
+      const [a, b] = active;
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      if (pinchDistance.current) {
+        const { px, py } = relativeToPaneCentre((a.x + b.x) / 2, (a.y + b.y) / 2, pane);
+        zoomBy(distance / pinchDistance.current, px, py);
+      }
+      pinchDistance.current = distance;
+      return;
+    }
+
+    setView(prev => ({ ...prev, x: prev.x + e.clientX - previous.x, y: prev.y + e.clientY - previous.y }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinchDistance.current = null;
+    if (pointers.current.size === 0) draggingSplit.current = false;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const pan = (dx: number, dy: number) => setView(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+    switch (e.key) {
+      case '+': case '=': zoomBy(ZOOM_STEP); break;
+      case '-': case '_': zoomBy(1 / ZOOM_STEP); break;
+      case '0': resetView(); break;
+      case '1': togglePixelMode(); break;
+      case 't': case 'T': setShowOriginal(prev => !prev); break;
+      case 'ArrowLeft':
+        if (e.shiftKey && mode === 'split') setSplit(prev => Math.max(0, prev - 5));
+        else pan(PAN_STEP, 0);
+        break;
+      case 'ArrowRight':
+        if (e.shiftKey && mode === 'split') setSplit(prev => Math.min(100, prev + 5));
+        else pan(-PAN_STEP, 0);
+        break;
+      case 'ArrowUp': pan(0, PAN_STEP); break;
+      case 'ArrowDown': pan(0, -PAN_STEP); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  const paneProps = {
+    onWheelZoom: handleWheel,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+  };
+  const pixelated = view.scale >= oneToOneScale();
+  const layer = (src: string, alt: string, grayscale = false) => (
+    <ImageLayer src={src} alt={alt} view={view} grayscale={grayscale} pixelated={pixelated} />
+  );
+  const originalLayerAlt = originalAlt ?? t('common.originalAlt');
+  const colorizedLayerAlt = colorizedAlt ?? t('viewer.colorizedAlt');
+
+  return (
+    <div className={`flex flex-col items-center w-full ${className}`}>
+      <div className="flex flex-wrap items-center justify-center gap-2 mb-4" role="toolbar" aria-label={t('viewer.controls')}>
+        <div className="flex rounded-lg overflow-hidden border border-fg/20" role="group" aria-label={t('viewer.mode')}>
+          {MODES.map(m => (
+            <button key={m.id} type="button" onClick={() => setMode(m.id)} aria-pressed={mode === m.id} className={`px-3 py-1.5 text-xs font-bold uppercase tracking-widest transition-colors focus:outline-none focus:ring-2 focus:ring-inset focus:ring-accent ${mode === m.id ? 'bg-accent text-on-accent' : 'text-fg hover:bg-fg/10'}`}>
+              {t(m.label)}
+            </button>
+          ))}
+        </div>
+        {mode === 'flicker' && (
+          <>
+            <ToolbarButton onClick={() => setShowOriginal(prev => !prev)} title={t('viewer.toggleTitle')}>{t(showOriginal ? 'viewer.showingOriginal' : 'viewer.showingColorized')}</ToolbarButton>
+            <ToolbarButton onClick={() => setAutoFlicker(prev => !prev)} pressed={autoFlicker}>{t('viewer.autoFlicker')}</ToolbarButton>
+          </>
+        )}
+        <ToolbarButton onClick={() => zoomBy(1 / ZOOM_STEP)} title={t('common.zoomOut')}>−</ToolbarButton>
+        <span className="text-fg/70 text-xs font-mono w-14 text-center" aria-live="polite">{Math.round(view.scale * 100)}%</span>
+        <ToolbarButton onClick={() => zoomBy(ZOOM_STEP)} title={t('common.zoomIn')}>+</ToolbarButton>
+        <ToolbarButton onClick={togglePixelMode} pressed={isPixelMode} title={t('viewer.oneToOneTitle')}>1:1</ToolbarButton>
+        <ToolbarButton onClick={resetView} title={t('common.fitTitle')}>{t('common.fit')}</ToolbarButton>
+      </div>
+
+      <div
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className={`w-full grid gap-4 rounded-lg focus:outline-none focus:ring-2 focus:ring-accent ${mode === 'side-by-side' ? 'md:grid-cols-2' : 'grid-cols-1'}`}
+        aria-label={t('viewer.instructions')}
+      >
+        {mode === 'split' && (
+          <Pane paneRef={paneRef} {...paneProps}>
+            {layer(colorizedUrl, colorizedLayerAlt)}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+              {layer(originalUrl, originalLayerAlt, true)}
+            </div>
+            <div
+              data-split-handle
+              role="slider"
+              aria-label={t('viewer.splitPosition')}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(split)}
+              className="absolute top-0 bottom-0 w-8 -ml-4 cursor-ew-resize flex justify-center touch-none"
+              style={{ left: `${split}%` }}
+            >
+              <div className="w-0.5 h-full bg-accent shadow-[0_0_10px_var(--theme-glow)]" />
+              <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-accent text-on-accent text-xs font-bold flex items-center justify-center shadow-lg">⇔</div>
+            </div>
+            <PaneLabel side="left">{t('common.original')}</PaneLabel>
+            <PaneLabel side="right">{t('common.colorized')}</PaneLabel>
+          </Pane>
+        )}
+
+        {mode === 'flicker' && (
+          <Pane paneRef={paneRef} {...paneProps}>
+            {showOriginal ? layer(originalUrl, originalLayerAlt, true) : layer(colorizedUrl, colorizedLayerAlt)}
+            <PaneLabel side="left">{t(showOriginal ? 'common.original' : 'common.colorized')}</PaneLabel>
+          </Pane>
+        )}
+
+        {mode === 'side-by-side' && (
+          <>
+            <Pane paneRef={paneRef} {...paneProps}>
+              {layer(originalUrl, originalLayerAlt, true)}
+              <PaneLabel side="left">{t('common.original')}</PaneLabel>
+            </Pane>
+            <Pane {...paneProps}>
+              {layer(colorizedUrl, colorizedLayerAlt)}
+              <PaneLabel side="left">{t('common.colorized')}</PaneLabel>
+            </Pane>
+          </>
+        )}
+      </div>
+
+      {/* Hidden probe for the natural size used by the 1:1 mode */}
+      <img src={colorizedUrl} alt="" aria-hidden="true" className="hidden" onLoad={e => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })} />
+    </div>
+  );
+};
+
+// Shared with BackendComparison, whose grid uses the same synchronized panes.
+export const Pane: React.FC<{
+  children: React.ReactNode;
+  paneRef?: React.RefObject<HTMLDivElement | null>;
+  sizeClassName?: string;
+  onWheelZoom: (e: WheelEvent, pane: Element) => void;
+  onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerUp: (e: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerCancel: (e: React.PointerEvent<HTMLDivElement>) => void;
+}> = ({ children, paneRef, sizeClassName = 'h-[55vh] max-h-[640px] min-h-[280px]', onWheelZoom, ...pointerHandlers }) => {
+  const localRef = useRef<HTMLDivElement>(null);
+  const ref = paneRef ?? localRef;
+
+  // React registers wheel listeners as passive, which would make preventDefault a no-op.
+  useEffect(() => {
+    const node = ref.current;
+    if (!node) return;
+    const listener = (e: WheelEvent) => onWheelZoom(e, node);
+    node.addEventListener('wheel', listener, { passive: false });
+    return () => node.removeEventListener('wheel', listener);
+  }, [ref, onWheelZoom]);
+
+  return (
+    <div ref={ref} {...pointerHandlers} className={`relative w-full ${sizeClassName} overflow-hidden rounded-lg border border-fg/20 bg-canvas/40 cursor-grab active:cursor-grabbing touch-none select-none`}>
+      {children}
+    </div>
+  );
+};
+
+export const ImageLayer: React.FC<{ src: string, alt: string, view: ViewTransform, grayscale: boolean, pixelated: boolean }> = ({ src, alt, view, grayscale, pixelated }) => (
+  <img
+    src={src}
+    alt={alt}
+    draggable={false}
+    className={`absolute inset-0 w-full h-full object-contain pointer-events-none ${grayscale ? 'grayscale' : ''}`}
+    style={{
+      transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+      transformOrigin: 'center',
+      imageRendering: pixelated ? 'pixelated' : 'auto',
+    }}
+  />
+);
+
+export const PaneLabel: React.FC<{ side: 'left' | 'right', children: React.ReactNode }> = ({ side, children }) => (
+  <span className={`absolute top-3 ${side === 'left' ? 'left-3' : 'right-3'} px-2 py-1 rounded bg-canvas/60 text-fg text-xs uppercase tracking-widest pointer-events-none`}>
+    {children}
+  </span>
+);
+
+export const ToolbarButton: React.FC<{ onClick: () => void, pressed?: boolean, title?: string, children: React.ReactNode }> = ({ onClick, pressed, title, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={title}
+    aria-pressed={pressed}
+    className={`min-w-8 px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors focus:outline-none focus:ring-2 focus:ring-accent ${pressed ? 'bg-accent text-on-accent border-accent' : 'text-fg border-fg/20 hover:bg-fg/10'}`}
+  >
+    {children}
+  </button>
+);
+
+export default ComparisonViewer;
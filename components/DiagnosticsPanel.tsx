@@ -0,0 +1,162 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { ColorizationDiagnostics, ColorizationResult, DiagnosticFlag } from '../types';
+import { computeDiagnostics } from '../services/diagnostics';
+import { MessageKey, useTranslation } from '../utils/i18n';
+
+/** Chroma at which the heatmap is fully saturated; few natural photos go beyond. */
+const HEATMAP_MAX_CHROMA = 50;
+
+const FLAG_MESSAGES: Record<DiagnosticFlag, MessageKey> = {
+  'low-chroma': 'diagnostics.lowChroma',
+  'luminance-shift': 'diagnostics.luminanceShift',
+};
+
+/** Cold (blue) for gray regions to hot (red) for strongly colored ones. */
+function heatColor(chroma: number): string {
+  const t = Math.min(1, chroma / HEATMAP_MAX_CHROMA);
+  return `hsla(${Math.round(240 * (1 - t))}, 90%, 50%, 0.55)`;
+}
+
+const ChromaHeatmap: React.FC<{ result: ColorizationResult, grid: ColorizationDiagnostics['chromaGrid'] }> = ({ result, grid }) => {
+  const t = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [showOverlay, setShowOverlay] = useState(true);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, grid.columns, grid.rows);
+    grid.values.forEach((chroma, i) => {
+      ctx.fillStyle = heatColor(chroma);
+      ctx.fillRect(i % grid.columns, Math.floor(i / grid.columns), 1, 1);
+    });
+  }, [grid]);
+
+  return (
+    <figure className="flex flex-col items-center">
+      <div className="relative inline-block max-w-full">
+        <img src={result.colorizedUrl} alt={t('diagnostics.heatmapAlt', { name: result.fileName })} className="block max-w-full max-h-72 rounded" />
+        <canvas
+          ref={canvasRef}
+          width={grid.columns}
+          height={grid.rows}
+          className={`absolute inset-0 w-full h-full rounded transition-opacity ${showOverlay ? 'opacity-100' : 'opacity-0'}`}
+          aria-hidden="true"
+        />
+      </div>
+      <figcaption className="mt-2 flex flex-wrap items-center justify-center gap-3 text-xs text-fg/70">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={showOverlay} onChange={e => setShowOverlay(e.target.checked)} className="accent-accent" />
+          {t('diagnostics.heatmap')}
+        </label>
+        <span className="flex items-center gap-1" aria-hidden="true">
+          {t('diagnostics.gray')}
+          <span className="inline-block w-20 h-2 rounded" style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(HEATMAP_MAX_CHROMA / 2)}, ${heatColor(HEATMAP_MAX_CHROMA)})` }} />
+          {t('diagnostics.vivid')}
+        </span>
+      </figcaption>
+    </figure>
+  );
+};
+
+const Histogram: React.FC<{ label: string, bins: number[], from: string, to: string }> = ({ label, bins, from, to }) => {
+  const t = useTranslation();
+  const peak = Math.max(...bins, 1e-6);
+  const barWidth = 100 / bins.length;
+  return (
+    <figure>
+      <svg viewBox="0 0 100 40" className="w-full h-24 rounded border border-fg/10 bg-canvas/40" preserveAspectRatio="none" role="img" aria-label={t('diagnostics.histogram', { channel: label })}>
+        <defs>
+          <linearGradient id={`histogram-${label}`} x1="0" x2="1" y1="0" y2="0">
+            <stop offset="0%" stopColor={from} />
+            <stop offset="50%" stopColor="#888" />
+            <stop offset="100%" stopColor={to} />
+          </linearGradient>
+        </defs>
+        {bins.map((share, i) => {
+          const height = share / peak * 38;
+          return <rect key={i} x={i * barWidth} y={40 - height} width={barWidth * 0.9} height={height} fill={`url(#histogram-${label})`} />;
+        })}
+        <line x1="50" x2="50" y1="0" y2="40" stroke="currentColor" strokeOpacity={0.3} strokeWidth={0.3} />
+      </svg>
+      <figcaption className="mt-1 flex justify-between text-[10px] uppercase tracking-widest text-fg/50">
+        <span>−128</span><span>{label}</span><span>+127</span>
+      </figcaption>
+    </figure>
+  );
+};
+
+const Metric: React.FC<{ label: string, value: string, warn?: boolean }> = ({ label, value, warn }) => (
+  <div className="px-3 py-2 rounded-lg border border-fg/10 bg-fg/5">
+    <dt className="text-[10px] uppercase tracking-widest text-fg/50">{label}</dt>
+    <dd className={`text-lg font-mono ${warn ? 'text-amber-300' : 'text-fg'}`}>{value}</dd>
+  </div>
+);
+
+/**
+ * Numbers behind a result: a/b histograms, colorfulness, where the color is
+ * (heatmap) and whether the original lightness survived. Results without
+ * stored diagnostics (e.g. reopened from history) are analyzed on open.
+ */
+const DiagnosticsPanel: React.FC<{ result: ColorizationResult }> = ({ result }) => {
+  const t = useTranslation();
+  const [computed, setComputed] = useState<ColorizationDiagnostics | null>(null);
+  const [failed, setFailed] = useState(false);
+  const diagnostics = result.diagnostics ?? computed;
+
+  useEffect(() => {
+    if (result.diagnostics) return;
+    const controller = new AbortController();
+    setComputed(null);
+    setFailed(false);
+    Promise.all([
+      fetch(result.originalUrl).then(res => res.blob()),
+      fetch(result.colorizedUrl).then(res => res.blob()),
+    ])
+      .then(([original, colorized]) => computeDiagnostics(original, colorized, controller.signal))
+      .then(setComputed)
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error(e);
+        setFailed(true);
+      });
+    return () => controller.abort();
+  }, [result]);
+
+  if (!diagnostics) {
+    return <p className="mt-6 text-fg/60 text-sm" role="status">{t(failed ? 'diagnostics.failed' : 'diagnostics.analyzing')}</p>;
+  }
+
+  const shifted = diagnostics.flags.includes('luminance-shift');
+  const sign = (value: number) => (value > 0 ? '+' : '') + value.toFixed(2);
+
+  return (
+    <section className="w-full max-w-4xl mt-6 p-4 rounded-lg border border-fg/20 text-left" aria-label={t('diagnostics.label')}>
+      {diagnostics.flags.length > 0 && (
+        <ul role="alert" className="mb-4 flex flex-col gap-2">
+          {diagnostics.flags.map(flag => (
+            <li key={flag} className="px-3 py-2 rounded-lg bg-amber-500/15 border border-amber-400/40 text-amber-200 text-sm">{t(FLAG_MESSAGES[flag])}</li>
+          ))}
+        </ul>
+      )}
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <Metric label={t('diagnostics.colorfulness')} value={diagnostics.colorfulness.toFixed(1)} />
+        <Metric label={t('diagnostics.meanChroma')} value={diagnostics.meanChroma.toFixed(1)} warn={diagnostics.flags.includes('low-chroma')} />
+        <Metric label={t('diagnostics.meanShift')} value={sign(diagnostics.meanLuminanceShift)} warn={shifted} />
+        <Metric label={t('diagnostics.meanError')} value={diagnostics.meanLuminanceError.toFixed(2)} />
+      </dl>
+
+      <div className="grid md:grid-cols-2 gap-6 items-start">
+        <ChromaHeatmap result={result} grid={diagnostics.chromaGrid} />
+        <div className="flex flex-col gap-4">
+          <Histogram label="a" bins={diagnostics.histogramA} from="#16a34a" to="#dc2626" />
+          <Histogram label="b" bins={diagnostics.histogramB} from="#2563eb" to="#eab308" />
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default DiagnosticsPanel;
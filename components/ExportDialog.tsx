@@ -0,0 +1,134 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { ColorizationResult } from '../types';
+import {
+  ExportFormat,
+  ExportLayout,
+  ExportOptions,
+  DEFAULT_EXPORT_OPTIONS,
+  downloadBlob,
+  exportColorization,
+} from '../services/exportImage';
+import { MessageKey, useTranslation } from '../utils/i18n';
+
+interface ExportDialogProps {
+  result: ColorizationResult;
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat, label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' },
+];
+
+const LAYOUTS: { id: ExportLayout, label: MessageKey }[] = [
+  { id: 'colorized', label: 'export.layoutColorized' },
+  { id: 'side-by-side', label: 'export.layoutSideBySide' },
+  { id: 'stacked', label: 'export.layoutStacked' },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ result, onClose }) => {
+  const t = useTranslation();
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    dialogRef.current?.querySelector<HTMLElement>('input, button')?.focus();
+  }, []);
+
+  const set = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) =>
+    setOptions(prev => ({ ...prev, [key]: value }));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { blob, fileName } = await exportColorization(result, options);
+      downloadBlob(blob, fileName);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : t('export.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onClose();
+  };
+
+  const isComposite = options.layout !== 'colorized';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-md rounded-lg border border-fg/20 bg-surface p-6 text-left shadow-2xl"
+      >
+        <h2 id="export-dialog-title" className="text-xl font-bold text-fg tracking-wider mb-6">{t('export.title')}</h2>
+
+        <fieldset className="mb-5">
+          <legend className="text-xs uppercase tracking-widest text-fg/70 mb-2">{t('export.format')}</legend>
+          <div className="flex gap-2">
+            {FORMATS.map(f => (
+              <label key={f.id} className={`flex-1 text-center px-3 py-1.5 rounded-lg border cursor-pointer text-sm font-bold transition-colors ${options.format === f.id ? 'bg-accent text-on-accent border-accent' : 'text-fg border-fg/20 hover:bg-fg/10'}`}>
+                <input type="radio" name="export-format" value={f.id} checked={options.format === f.id} onChange={() => set('format', f.id)} className="sr-only" />
+                {f.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <label className={`block mb-5 ${options.format === 'png' ? 'opacity-40' : ''}`}>
+          <span className="flex justify-between text-xs uppercase tracking-widest text-fg/70 mb-1">
+            <span>{t('export.quality')}</span>
+            <span className="font-mono text-accent">{Math.round(options.quality * 100)}</span>
+          </span>
+          <input type="range" min={0.5} max={1} step={0.01} value={options.quality} disabled={options.format === 'png'} onChange={e => set('quality', Number(e.target.value))} className="w-full accent-accent" />
+        </label>
+
+        <fieldset className="mb-5">
+          <legend className="text-xs uppercase tracking-widest text-fg/70 mb-2">{t('export.layout')}</legend>
+          <div className="flex flex-col gap-1.5">
+            {LAYOUTS.map(l => (
+              <label key={l.id} className="flex items-center gap-2 text-sm text-fg cursor-pointer">
+                <input type="radio" name="export-layout" value={l.id} checked={options.layout === l.id} onChange={() => set('layout', l.id)} className="accent-accent" />
+                {t(l.label)}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <label className={`block mb-5 ${isComposite ? '' : 'opacity-40'}`}>
+          <span className="block text-xs uppercase tracking-widest text-fg/70 mb-1">{t('export.caption')}</span>
+          <input type="text" value={options.caption} disabled={!isComposite} onChange={e => set('caption', e.target.value)} placeholder={t('export.captionPlaceholder')} className="w-full px-3 py-2 rounded-lg bg-canvas/40 border border-fg/20 text-fg text-sm focus:outline-none focus:ring-2 focus:ring-accent" />
+        </label>
+
+        <p className="text-fg/50 text-xs mb-6">
+          {t('export.provenance', { name: result.fileName, backend: result.backendId })}
+        </p>
+
+        {error && <p role="alert" className="text-red-300 text-sm mb-4">{error}</p>}
+
+        <div className="flex gap-2">
+          <button type="button" onClick={onClose} className="flex-1 px-4 py-2 rounded-lg border border-fg/20 text-fg font-bold hover:bg-fg/10 transition-colors focus:outline-none focus:ring-2 focus:ring-fg/60">
+            {t('common.cancel')}
+          </button>
+          <button type="button" onClick={handleExport} disabled={isExporting} className="flex-1 px-4 py-2 rounded-lg bg-accent text-on-accent font-bold hover:bg-accent/90 transition-colors disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-surface focus:ring-accent">
+            {t(isExporting ? 'export.exporting' : 'export.export')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
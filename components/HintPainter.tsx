@@ -0,0 +1,206 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ColorHintPoint, ColorHints, HINTS_SCHEMA_VERSION } from '../services/hints';
+import type { HintSupport } from '../hooks/useColorizer';
+import { MessageKey, useTranslation } from '../utils/i18n';
+
+interface HintPainterProps {
+  file: File;
+  support: HintSupport;
+  /** `null` when the user skips the hint step. */
+  onSubmit: (hints: ColorHints | null) => void;
+  onCancel: () => void;
+}
+
+type Tool = 'brush' | 'eraser' | 'point';
+
+/** Longest side of the hint mask; hints are coarse, full resolution would only bloat the upload. */
+const MASK_MAX_SIDE = 1024;
+
+const TOOLS: { id: Tool, label: MessageKey }[] = [
+  { id: 'brush', label: 'hints.brush' },
+  { id: 'point', label: 'hints.point' },
+  { id: 'eraser', label: 'hints.eraser' },
+];
+
+/**
+ * Optional step before upload: the user paints color hints over the grayscale
+ * image. Strokes end up in a transparent PNG mask, point hints in the payload.
+ */
+/** Whether any pixel of the mask canvas is still (partly) opaque. */
+function hasPaint(canvas: HTMLCanvasElement): boolean {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  for (let p = 3; p < data.length; p += 4) {
+    if (data[p] > 0) return true;
+  }
+  return false;
+}
+
+const HintPainter: React.FC<HintPainterProps> = ({ file, support, onSubmit, onCancel }) => {
+  const t = useTranslation();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [maskSize, setMaskSize] = useState<{ width: number, height: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [color, setColor] = useState('#3b6fd6');
+  const [size, setSize] = useState(24);
+  const [points, setPoints] = useState<ColorHintPoint[]>([]);
+  const [hasStrokes, setHasStrokes] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPos = useRef<{ x: number, y: number } | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    const scale = Math.min(1, MASK_MAX_SIDE / Math.max(naturalWidth, naturalHeight));
+    setMaskSize({ width: Math.max(1, Math.round(naturalWidth * scale)), height: Math.max(1, Math.round(naturalHeight * scale)) });
+  };
+
+  const toMaskCoords = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const strokeTo = (to: { x: number, y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPos.current ?? to;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = color;
+    ctx.lineWidth = size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    lastPos.current = to;
+  };
+
+  const eraseNearbyPoints = (pos: { x: number, y: number }) => {
+    if (!maskSize) return;
+    setPoints(prev => prev.filter(p => Math.hypot(p.x * maskSize.width - pos.x, p.y * maskSize.height - pos.y) > size / 2 + p.radius * maskSize.width));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!maskSize) return;
+    const pos = toMaskCoords(e);
+    if (tool === 'point') {
+      setPoints(prev => [...prev, { x: pos.x / maskSize.width, y: pos.y / maskSize.height, color, radius: size / 2 / maskSize.width }]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPos.current = null;
+    strokeTo(pos);
+    if (tool === 'brush') setHasStrokes(true);
+    else eraseNearbyPoints(pos);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPos.current) return;
+    const pos = toMaskCoords(e);
+    strokeTo(pos);
+    if (tool === 'eraser') eraseNearbyPoints(pos);
+  };
+
+  const handlePointerUp = () => { lastPos.current = null; };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setPoints([]);
+    setHasStrokes(false);
+  };
+
+  const submit = async () => {
+    const canvas = canvasRef.current;
+    // The eraser can take every stroke back off; only a mask with paint left on it is a hint.
+    const painted = !!canvas && hasStrokes && hasPaint(canvas);
+    if (!canvas || !maskSize || (!painted && points.length === 0)) {
+      onSubmit(null);
+      return;
+    }
+    const mask = painted ? await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png')) : null;
+    onSubmit({
+      payload: { version: HINTS_SCHEMA_VERSION, width: maskSize.width, height: maskSize.height, points, hasMask: !!mask },
+      mask: mask ?? undefined,
+    });
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center" role="region" aria-label={t('hints.label')}>
+      <h2 className="text-2xl font-bold tracking-wider text-fg mb-2">{t('hints.title')}</h2>
+      <p className="text-fg/60 text-sm mb-4 text-center max-w-lg">{t('hints.body')}</p>
+
+      {support === 'unsupported' && (
+        <p role="alert" className="mb-4 px-4 py-2 rounded-lg bg-amber-500/15 border border-amber-400/40 text-amber-200 text-sm max-w-lg text-center">
+          {t('hints.unsupported')}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-3 mb-4" role="toolbar" aria-label={t('hints.tools')}>
+        <div className="flex rounded-lg overflow-hidden border border-fg/20" role="group" aria-label={t('hints.tool')}>
+          {TOOLS.map(option => (
+            <button key={option.id} type="button" onClick={() => setTool(option.id)} aria-pressed={tool === option.id} className={`px-3 py-1.5 text-xs font-bold uppercase tracking-widest transition-colors focus:outline-none focus:ring-2 focus:ring-inset focus:ring-accent ${tool === option.id ? 'bg-accent text-on-accent' : 'text-fg hover:bg-fg/10'}`}>
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs uppercase tracking-widest text-fg/70">
+          {t('hints.color')}
+          <input type="color" value={color} onChange={e => setColor(e.target.value)} className="w-8 h-8 rounded border border-fg/20 bg-transparent cursor-pointer" />
+        </label>
+        <label className="flex items-center gap-2 text-xs uppercase tracking-widest text-fg/70">
+          {t('hints.size')}
+          <input type="range" min={4} max={96} value={size} onChange={e => setSize(Number(e.target.value))} className="w-24 accent-accent" />
+        </label>
+        <button type="button" onClick={clear} className="px-3 py-1.5 rounded-lg border border-fg/20 text-fg text-xs font-bold uppercase tracking-widest hover:bg-fg/10 focus:outline-none focus:ring-2 focus:ring-accent">{t('hints.clear')}</button>
+      </div>
+
+      <div className="relative max-w-full rounded-lg overflow-hidden border border-fg/20">
+        {imageUrl && <img src={imageUrl} alt={t('hints.imageAlt', { name: file.name })} onLoad={handleImageLoad} className="block max-w-full max-h-[55vh] grayscale select-none" draggable={false} />}
+        {maskSize && (
+          <>
+            <canvas
+              ref={canvasRef}
+              width={maskSize.width}
+              height={maskSize.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full opacity-60 cursor-crosshair touch-none"
+              aria-label={t('hints.canvas')}
+            />
+            <svg viewBox={`0 0 ${maskSize.width} ${maskSize.height}`} className="absolute inset-0 w-full h-full pointer-events-none" aria-hidden="true">
+              {points.map((p, i) => (
+                <circle key={i} cx={p.x * maskSize.width} cy={p.y * maskSize.height} r={p.radius * maskSize.width} fill={p.color} stroke="#FFFFFF" strokeWidth={2} />
+              ))}
+            </svg>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-3 mt-6">
+        <button type="button" onClick={onCancel} className="px-6 py-2.5 rounded-lg border border-fg/20 text-fg font-bold hover:bg-fg/10 transition-colors focus:outline-none focus:ring-2 focus:ring-fg/60">
+          {t('common.cancel')}
+        </button>
+        <button type="button" onClick={() => onSubmit(null)} className="px-6 py-2.5 bg-fg text-canvas font-bold rounded-lg hover:bg-fg/80 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-fg">
+          {t('hints.skip')}
+        </button>
+        <button type="button" onClick={submit} disabled={support === 'checking'} className="px-6 py-2.5 bg-accent text-on-accent font-bold rounded-lg hover:bg-accent/90 transition-all disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-accent">
+          {t('hints.colorize')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HintPainter;
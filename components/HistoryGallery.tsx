@@ -0,0 +1,73 @@
+import React from 'react';
+import type { ColorizationResult } from '../types';
+import type { HistoryItem } from '../hooks/useColorizationHistory';
+import { useTranslation } from '../utils/i18n';
+
+interface HistoryGalleryProps {
+  items: HistoryItem[];
+  usedBytes: number;
+  quotaBytes: number;
+  error?: string | null;
+  onOpen: (result: ColorizationResult) => void;
+  onDelete: (id: string) => void;
+  className?: string;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({ items, usedBytes, quotaBytes, error, onOpen, onDelete, className = '' }) => {
+  const t = useTranslation();
+  const usage = Math.min(100, (usedBytes / quotaBytes) * 100);
+
+  return (
+    <section className={`w-full ${className}`} aria-label={t('history.label')}>
+      <div className="flex items-end justify-between mb-4 gap-4">
+        <h2 className="text-xl font-bold text-fg tracking-wider">{t('history.title')}</h2>
+        <div className="text-right">
+          <p className="text-fg/60 text-xs font-mono">{t('history.usage', { used: formatBytes(usedBytes), quota: formatBytes(quotaBytes) })}</p>
+          <div className="w-40 h-1.5 mt-1 bg-fg/10 rounded-full overflow-hidden" role="meter" aria-valuenow={Math.round(usage)} aria-valuemin={0} aria-valuemax={100} aria-label={t('history.usageLabel')}>
+            <div className="h-full bg-accent" style={{ width: `${usage}%` }} />
+          </div>
+        </div>
+      </div>
+
+      {error && <p role="alert" className="text-red-300 text-sm mb-4">{error}</p>}
+
+      {items.length === 0 ? (
+        <p className="text-fg/50 text-sm">{t('history.empty')}</p>
+      ) : (
+        <ul className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {items.map(({ id, result }) => (
+            <li key={id} className="group relative rounded-lg overflow-hidden border border-fg/10 hover:border-accent transition-colors bg-canvas/30">
+              <button type="button" onClick={() => onOpen(result)} className="block w-full text-left focus:outline-none focus:ring-2 focus:ring-inset focus:ring-accent" title={t('history.open', { name: result.fileName })}>
+                <img src={result.colorizedUrl} alt={t('history.colorizedAlt', { name: result.fileName })} className="w-full aspect-square object-cover" loading="lazy" />
+                <div className="px-2 py-1.5">
+                  <p className="text-fg text-xs font-mono truncate">{result.fileName}</p>
+                  <p className="text-fg/50 text-[10px] truncate">
+                    {new Date(result.createdAt).toLocaleString(t.locale)} · {result.width}×{result.height}
+                  </p>
+                  <p className="text-fg/40 text-[10px] truncate" title={result.backendId}>{result.backendId}</p>
+                </div>
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(id)}
+                className="absolute top-2 right-2 p-1.5 rounded-full bg-black/70 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-red-500 transition-all focus:outline-none focus:ring-2 focus:ring-red-400"
+                aria-label={t('history.delete', { name: result.fileName })}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default HistoryGallery;
@@ -1,141 +1,200 @@
-import React, { useState, useRef, useCallback, useEffect, useLayoutEffect } from 'react';
-import { motion, AnimatePresence, useMotionValue, useTransform, useSpring, animate } from 'framer-motion';
-
-type Status = 'idle' | 'uploading' | 'processing' | 'complete';
-
-interface ProgressReport {
-  stageIndex: number;
-  stageName: string;
-  percent: number;
-}
-
-interface ColorizationResult {
-  originalUrl: string;
-  colorizedUrl: string;
-}
-
-interface ImageColorizerProps {
+import React, { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo } from 'react';
+import { motion, AnimatePresence, MotionConfig, useMotionValue, useTransform, useSpring, useReducedMotion, animate } from 'framer-motion';
+import type { ColorizerClient, ColorizerStage } from '../services/colorizerClient';
+import { PIPELINE_STAGES, PipelineStage } from '../services/pipeline';
+import type { PreprocessOptions } from '../services/preprocess';
+import { ColorInputChoice, useColorizer } from '../hooks/useColorizer';
+import type { BatchItem, ColorizationResult, ProgressReport } from '../types';
+import { ColorizerTheme, ThemeName, THEME_COLORS, resolveTheme, themeVariables } from '../utils/theme';
+import { useSystemTheme } from '../hooks/useTheme';
+import { computePipelineLayout, splitLabel } from '../utils/pipelineLayout';
+import ResultView from './ResultView';
+import HintPainter from './HintPainter';
+import CameraCapture from './CameraCapture';
+import BackendComparison, { CompareEndpointsEditor } from './BackendComparison';
+import { CompareEndpoint, MIN_COMPARE_ENDPOINTS, isUsableEndpoint } from '../services/compare';
+import { useCompareEndpoints } from '../hooks/useCompareEndpoints';
+import { filesFromClipboard, importImageFromUrl, validateImageFiles } from '../services/imageSources';
+import { LocaleContext, createTranslator, describeError, resolveLocale, stageLabel, useTranslation } from '../utils/i18n';
+
+export interface ImageColorizerProps {
   onResult: (result: ColorizationResult) => void;
+  /**
+   * Offline mode: a deterministic local pseudo-colorization runs through the
+   * same stages instead of calling the backend. Handy for demos and UI tests.
+   */
   simulate?: boolean;
+  /**
+   * Pipeline stages to show, in order. Keys must match the stage events of the
+   * backend; the layout adapts to any number of stages.
+   */
+  stages?: StageDefinition[];
+  /** Seconds per stage, used until (and unless) the backend reports real timings. */
   stageDurations?: number[];
+  /** Follow the per-stage timings reported by the backend on later runs. */
+  useServerTimings?: boolean;
   className?: string;
-  theme?: 'black' | 'blue';
+  /**
+   * A built-in theme name or a custom theme object; follows
+   * `prefers-color-scheme` when omitted. 'black' and 'blue' are kept as
+   * aliases of 'dark' and 'navy'.
+   */
+  theme?: ColorizerTheme | ThemeName | 'black' | 'blue';
+  /** Overrides the client provided through `ColorizerClientContext`. */
+  client?: ColorizerClient;
+  /** Maximum number of batch items sent to the backend at once. */
+  concurrency?: number;
+  /** Fires once after every item of a multi-file drop has finished or failed. */
+  onBatchComplete?: (items: BatchItem[]) => void;
+  /** Fires whenever a colorization fails (not when the user cancels it). */
+  onError?: (error: Error, file: File) => void;
+  /** Every stage (and, for animations, frame) report of a single-file run. */
+  onProgress?: (report: ProgressReport) => void;
+  /** Extra attempts for network errors and 5xx responses. */
+  retries?: number;
+  /**
+   * Rebuild the output at the original's resolution from its own lightness and
+   * the predicted chroma, instead of using the backend's upsampled RGB.
+   */
+  fullResolution?: boolean;
+  /** Offer the optional color-hint painting step for single images. */
+  allowHints?: boolean;
+  /** Blend chroma between consecutive frames of animated GIF/APNG inputs to reduce flicker. */
+  smoothAnimations?: boolean;
+  /** File size and dimension limits, upload downscaling and the color-input check. */
+  preprocess?: PreprocessOptions;
+  /** Answer repeated single images from the local result cache; cached results offer a forced re-run. */
+  cache?: boolean;
+  /**
+   * Replace the animated pipeline with a static stepper and plain progress
+   * bars. Defaults to the user's `prefers-reduced-motion` setting.
+   */
+  reducedMotion?: boolean;
+  /** Offer compare mode, which sends one image to several backends side by side. */
+  allowCompare?: boolean;
+  /**
+   * Initial backends for compare mode. Entries with a `client` are always
+   * kept; URL entries are replaced by whatever the user saved last.
+   */
+  compareEndpoints?: CompareEndpoint[];
+  /**
+   * Language of the UI as a BCP 47 tag ('en', 'de' and 'ja' have catalogs).
+   * Defaults to the first of the browser's languages that is supported.
+   */
+  locale?: string;
 }
 
-const STAGES = [
-  { name: 'Image Preprocessing', icon: (p: any) => <path {...p} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /> },
-  { name: 'Lab Color Conversion', icon: (p: any) => <path {...p} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" /> },
-  { name: 'Encoder Analysis', icon: (p: any) => <path {...p} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" /> },
-  { name: 'Decoder Reconstruction', icon: (p: any) => <path {...p} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" /> },
-  { name: 'Final RGB Output', icon: (p: any) => <path {...p} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /> },
-];
-
-const DEFAULT_STAGE_DURATIONS = [1.0, 1.5, 2.5, 2.0, 1.0]; // in seconds
-
-const DESKTOP_ZIGZAG = {
-  path: "M 40 100 C 130 100 130 40 220 40 C 310 40 310 160 400 160 C 490 160 490 40 580 40 C 670 40 670 100 760 100",
-  nodes: [
-    { cx: 40, cy: 100 }, { cx: 220, cy: 40 }, { cx: 400, cy: 160 },
-    { cx: 580, cy: 40 }, { cx: 760, cy: 100 },
-  ],
-  viewBox: "-60 -50 920 300",
-};
+export interface StageDefinition extends PipelineStage {
+  /** Renders the glyph in a 24×24 box with the given SVG props; built-in keys have defaults. */
+  icon?: (p: any) => React.ReactElement;
+}
 
-const MOBILE_ZIGZAG = {
-  path: "M 50 50 C 150 50 150 125 250 125 C 150 125 150 200 50 200 C 150 200 150 275 250 275 C 150 275 150 350 50 350",
-  nodes: [
-    { cx: 50, cy: 50 }, { cx: 250, cy: 125 }, { cx: 50, cy: 200 },
-    { cx: 250, cy: 275 }, { cx: 50, cy: 350 },
-  ],
-  viewBox: "0 0 300 400",
+const STAGE_ICONS: Partial<Record<ColorizerStage, StageDefinition['icon']>> = {
+  preprocessing: (p: any) => <path {...p} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />,
+  lab: (p: any) => <path {...p} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />,
+  encoder: (p: any) => <path {...p} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />,
+  decoder: (p: any) => <path {...p} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" />,
+  rgb: (p: any) => <path {...p} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />,
 };
 
-async function processImage(
-  file: File,
-  onProgress: (report: ProgressReport) => void,
-  stageDurations: number[]
-): Promise<ColorizationResult> {
-  console.log(`Starting colorization for: ${file.name}`);
-
-  const totalDuration = stageDurations.reduce((a, b) => a + b, 0);
-  let elapsedDuration = 0;
-
-  // 1. Start API call
-  const formData = new FormData();
-  formData.append('file', file);
-  
-  const apiPromise = fetch('https://noob-coder01-bw-colorizer-backend.hf.space/colorize', {
-      method: 'POST',
-      body: formData,
-  })
-  .then(res => {
-      if (!res.ok) throw new Error(`API Error: ${res.statusText}`);
-      return res.blob();
-  })
-  .then(blob => URL.createObjectURL(blob));
-
-  // 2. Run visuals
-  for (let i = 0; i < STAGES.length; i++) {
-    onProgress({
-      stageIndex: i,
-      stageName: STAGES[i].name,
-      percent: (elapsedDuration / totalDuration) * 100,
-    });
-    await new Promise(resolve => setTimeout(resolve, stageDurations[i] * 1000));
-    elapsedDuration += stageDurations[i];
-  }
-  
-  // 3. Wait for API
-  let colorizedUrl;
-  try {
-      colorizedUrl = await apiPromise;
-  } catch (e) {
-      console.error(e);
-      throw new Error("Failed to connect to the backend. Is the server running on port 8000?");
-  }
-
-  onProgress({
-    stageIndex: STAGES.length - 1,
-    stageName: STAGES[STAGES.length - 1].name,
-    percent: 100,
-  });
-
-  const originalUrl = URL.createObjectURL(file);
+const GENERIC_STAGE_ICON: StageDefinition['icon'] = (p: any) => <path {...p} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />;
 
-  return {
-    originalUrl,
-    colorizedUrl
-  };
-}
+const stageIcon = (stage: StageDefinition) => stage.icon ?? STAGE_ICONS[stage.key] ?? GENERIC_STAGE_ICON;
 
 const ImageColorizer: React.FC<ImageColorizerProps> = ({
   onResult,
-  simulate = true,
-  stageDurations = DEFAULT_STAGE_DURATIONS,
+  simulate = false,
+  stages: stagesProp = PIPELINE_STAGES,
+  stageDurations,
+  useServerTimings,
   className = '',
-  theme = 'black',
+  theme,
+  client,
+  concurrency,
+  onBatchComplete,
+  onError,
+  onProgress,
+  retries,
+  fullResolution,
+  allowHints = true,
+  smoothAnimations,
+  preprocess,
+  cache,
+  reducedMotion,
+  allowCompare = true,
+  compareEndpoints,
+  locale,
 }) => {
-  const [status, setStatus] = useState<Status>('idle');
-  const [progress, setProgress] = useState(0);
-  const [stageIndex, setStageIndex] = useState(-1);
-  const [result, setResult] = useState<ColorizationResult | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
+  const t = useMemo(() => createTranslator(resolveLocale(locale)), [locale]);
+  const systemTheme = useSystemTheme();
+  const prefersReducedMotion = useReducedMotion();
+  const isReducedMotion = reducedMotion ?? !!prefersReducedMotion;
+  const activeTheme = theme ? resolveTheme(theme) : systemTheme;
+  const dotProgress = useMotionValue(0);
+  // Durations the hook resolved (including server timings); read when progress arrives.
+  const durationsRef = useRef<number[]>([]);
+
+  // `stages` is the hook's resolved list (an empty prop means the built-in stages), destructured below.
+  const handleProgress = (report: ProgressReport) => {
+    const targetDotProgress = (report.stageIndex + 1) / stages.length;
+    if (isReducedMotion) dotProgress.set(targetDotProgress);
+    else animate(dotProgress, targetDotProgress, {
+      duration: durationsRef.current[report.stageIndex] || 1,
+      ease: [0.22, 1, 0.36, 1],
+    });
+    onProgress?.(report);
+  };
+
+  const {
+    status, stages, progress, uploadProgress, stageIndex, stageDurations: resolvedDurations, frame, colorInput, retryAttempt, retries: retryLimit, fileName, result, error,
+    batchItems, isBatchRunning, comparison, isComparing, hintFile, hintSupport, client: activeClient,
+    start, startBatch, startComparison, pickWinner, beginHints, submitHints, confirmColorInput, retry, forceRerun, cancel, reset, updateResult,
+  } = useColorizer({
+    client,
+    simulate,
+    stages: stagesProp,
+    stageDurations,
+    useServerTimings,
+    retries,
+    fullResolution,
+    concurrency,
+    smoothAnimations,
+    preprocess,
+    cache,
+    onProgress: handleProgress,
+    onResult,
+    onBatchComplete,
+    onError,
+    formatError: e => describeError(e, t),
+  });
+  const [wantsHints, setWantsHints] = useState(false);
+  const [wantsCompare, setWantsCompare] = useState(false);
+  const [compareFile, setCompareFile] = useState<File | null>(null);
+  const { endpoints, setEndpoints } = useCompareEndpoints(t, compareEndpoints);
   const [isDragging, setIsDragging] = useState(false);
-  const [isMobile, setIsMobile] = useState(false);
-  const { path, nodes, viewBox } = isMobile ? MOBILE_ZIGZAG : DESKTOP_ZIGZAG;
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const importAbortRef = useRef<AbortController | null>(null);
+  durationsRef.current = resolvedDurations;
+  const [pipelineWidth, setPipelineWidth] = useState(0);
+  const layout = useMemo(() => computePipelineLayout(stages.length, pipelineWidth), [stages.length, pipelineWidth]);
+  const { path, nodes, viewBox } = layout;
+  const stageNames = useMemo(() => stages.map(stage => stageLabel(stage, t)), [stages, t]);
   
   const resultCtaRef = useRef<HTMLButtonElement>(null);
   const pathRef = useRef<SVGPathElement | null>(null);
   const [pathLength, setPathLength] = useState(0);
 
-  const dotProgress = useMotionValue(0);
-
-  const checkIsMobile = useCallback(() => setIsMobile(window.innerWidth < 768), []);
-  useLayoutEffect(() => {
-    checkIsMobile();
-    window.addEventListener('resize', checkIsMobile);
-    return () => window.removeEventListener('resize', checkIsMobile);
-  }, [checkIsMobile]);
+  const resizeObserverRef = useRef<ResizeObserver | null>(null);
+  const measureContainer = useCallback((node: HTMLDivElement | null) => {
+    resizeObserverRef.current?.disconnect();
+    resizeObserverRef.current = null;
+    if (!node) return;
+    setPipelineWidth(node.clientWidth);
+    resizeObserverRef.current = new ResizeObserver(([entry]) => setPipelineWidth(entry.contentRect.width));
+    resizeObserverRef.current.observe(node);
+  }, []);
 
   const measurePath = useCallback((node: SVGPathElement | null) => {
       pathRef.current = node;
@@ -146,60 +205,80 @@ const ImageColorizer: React.FC<ImageColorizerProps> = ({
 
   useLayoutEffect(() => {
     if (pathRef.current) setPathLength(pathRef.current.getTotalLength());
-  }, [isMobile, status, path]);
+  }, [status, path]);
 
   useEffect(() => {
     if (status === 'complete' && resultCtaRef.current) resultCtaRef.current.focus();
   }, [status]);
 
-  const handleFileSelect = useCallback(async (selectedFile: File | null) => {
-    if (!selectedFile) return;
-
-    setStatus('uploading');
-    setFileName(selectedFile.name);
+  useEffect(() => {
+    if (status === 'idle' || status === 'uploading') dotProgress.set(0);
+    else if (status === 'error' || status === 'cancelled') dotProgress.stop();
+  }, [status, dotProgress]);
 
-    await new Promise(resolve => setTimeout(resolve, 1000));
+  useEffect(() => () => importAbortRef.current?.abort(), []);
 
-    setStatus('processing');
-    await new Promise(resolve => setTimeout(resolve, 100));
+  // Every input source (picker, drop, paste, URL, camera) ends up here.
+  const handleFilesSelect = (files: FileList | File[] | null | undefined) => {
+    const { images, rejected } = validateImageFiles(
+      Array.from(files ?? []),
+      file => t(file.type ? 'dropzone.notImageType' : 'dropzone.notImage', { name: file.name, type: file.type })
+    );
+    setInputError(images.length === 0 && rejected.length > 0 ? rejected.join(' ') : null);
+    setIsCapturing(false);
+    if (images.length === 1) {
+      const usable = endpoints.filter(isUsableEndpoint);
+      if (allowCompare && wantsCompare && usable.length >= MIN_COMPARE_ENDPOINTS) {
+        setCompareFile(images[0]);
+        startComparison(images[0], usable);
+      }
+      else if (allowHints && wantsHints) beginHints(images[0]);
+      else start(images[0]);
+    }
+    else if (images.length > 1) startBatch(images);
+  };
 
-    const onProgress = (report: ProgressReport) => {
-      setProgress(report.percent);
-      setStageIndex(report.stageIndex);
-      const targetDotProgress = (report.stageIndex + 1) / STAGES.length;
-      animate(dotProgress, targetDotProgress, {
-        duration: stageDurations[report.stageIndex] || 1,
-        ease: [0.22, 1, 0.36, 1],
-      });
-    };
-    
+  const importFromUrl = async (url: string) => {
+    importAbortRef.current?.abort();
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+    setIsImporting(true);
+    setInputError(null);
     try {
-        const colorizationResult = await processImage(selectedFile, onProgress, stageDurations);
-        
-        setTimeout(() => {
-            setResult(colorizationResult);
-            setStatus('complete');
-            onResult(colorizationResult);
-        }, 300);
-    } catch (error) {
-        console.error(error);
-        setStatus('idle');
-        alert(error instanceof Error ? error.message : "An error occurred during colorization");
+      const file = await importImageFromUrl(url, activeClient, controller.signal);
+      handleFilesSelect([file]);
+    } catch (e) {
+      if (!controller.signal.aborted) setInputError(e instanceof Error ? describeError(e, t) : t('dropzone.importFailed', { url }));
+    } finally {
+      if (importAbortRef.current === controller) {
+        importAbortRef.current = null;
+        setIsImporting(false);
+      }
     }
-  }, [simulate, onResult, stageDurations, dotProgress]);
-
-  const resetState = () => {
-    setStatus('idle');
-    setProgress(0);
-    setStageIndex(-1);
-    setResult(null);
-    setFileName(null);
-    dotProgress.set(0);
   };
-  
+
+  const canAcceptInput = status === 'idle' || status === 'complete' || status === 'error' || status === 'cancelled';
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (!canAcceptInput) return;
+    const files = filesFromClipboard(e.clipboardData);
+    if (files.length > 0) {
+      e.preventDefault();
+      handleFilesSelect(files);
+      return;
+    }
+    // A copied image address works too, unless it's being pasted into a text field.
+    const text = e.clipboardData.getData('text/plain').trim();
+    const target = e.target as HTMLElement;
+    if (/^https?:\/\/\S+$/.test(text) && !target.closest('input, textarea, [contenteditable="true"]')) {
+      e.preventDefault();
+      importFromUrl(text);
+    }
+  };
+
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault(); e.stopPropagation(); setIsDragging(false);
-    if (e.dataTransfer.files?.[0]) handleFileSelect(e.dataTransfer.files[0]);
+    handleFilesSelect(e.dataTransfer.files);
   };
 
   const handleDragEvents = (e: React.DragEvent<HTMLDivElement>) => {
@@ -209,78 +288,113 @@ const ImageColorizer: React.FC<ImageColorizerProps> = ({
   };
   
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.[0]) handleFileSelect(e.target.files[0]);
+    handleFilesSelect(e.target.files);
+    e.target.value = '';
   };
 
+  // One sentence per state change for screen readers; batches and comparisons announce their own counts.
+  let announcement = '';
+  if (status === 'uploading') announcement = t(uploadProgress === null ? 'announce.preparing' : 'announce.uploading', { name: fileName ?? '' });
+  else if (status === 'processing') announcement = stageIndex > -1 ? t('announce.stage', { index: stageIndex + 1, total: stages.length, name: stageNames[stageIndex] }) : t('announce.starting');
+  else if (status === 'complete' && result) announcement = t(result.fromCache ? 'announce.completeCached' : 'announce.complete', { name: result.fileName });
+  else if (status === 'cancelled') announcement = t('announce.cancelled');
+  const failure = status === 'error' ? (error ? t('announce.failedBecause', { reason: error }) : t('announce.failed')) : '';
+
   return (
-    <>
+    <LocaleContext.Provider value={t}>
       <style>{`
-        :root {
-          --bg-color: ${theme === 'black' ? '#000000' : '#0a192f'};
-          --text-primary: #E6F1FF;
-          --text-secondary: #8892b0;
-          --accent-teal: #04D9FF;
-          --accent-purple: #BD34FE;
-          --glow-teal: drop-shadow(0 0 8px var(--accent-teal));
-          --glow-purple: drop-shadow(0 0 8px var(--accent-purple));
-        }
         .vignette { box-shadow: inset 0px 60px 100px -40px rgba(0,0,0,0.95); }
         .breathing-glow { animation: breathing-glow 2s ease-in-out infinite; }
         @keyframes breathing-glow {
-          0%, 100% { filter: drop-shadow(0 0 8px var(--accent-teal)); }
-          50% { filter: drop-shadow(0 0 16px var(--accent-teal)); }
+          0%, 100% { filter: drop-shadow(0 0 8px var(--theme-glow)); }
+          50% { filter: drop-shadow(0 0 16px var(--theme-glow)); }
         }
       `}</style>
-      <div className={`relative ${theme === 'black' ? 'vignette' : ''} rounded-lg p-6 min-h-[400px] flex flex-col justify-center items-center transition-all duration-300 overflow-hidden ${className}`} style={{ backgroundColor: 'var(--bg-color)' }}>
+      {/* Theme variables live on the container so they don't leak into the host page. */}
+      <div className={`relative ${activeTheme.vignette ? 'vignette' : ''} bg-canvas text-fg rounded-lg p-6 min-h-[400px] flex flex-col justify-center items-center transition-all duration-300 overflow-hidden ${className}`} style={themeVariables(activeTheme)} lang={t.locale} onPaste={handlePaste}>
         
+        <p className="sr-only" role="status" aria-live="polite" aria-atomic="true">{announcement}</p>
+        <p className="sr-only" role="alert" aria-atomic="true">{failure}</p>
+
+        <MotionConfig reducedMotion={isReducedMotion ? 'always' : 'never'}>
         <AnimatePresence mode="wait">
-          {status === 'idle' && (
+          {status === 'idle' && !isCapturing && (
             <motion.div key="idle" exit={{ opacity: 0, scale: 0.9 }} className="w-full">
-              <Dropzone theme={theme} onDrop={handleDrop} onDragOver={handleDragEvents} onDragEnter={handleDragEvents} onDragLeave={handleDragEvents} onFileChange={handleFileChange} isDragging={isDragging} />
+              <Dropzone onDrop={handleDrop} onDragOver={handleDragEvents} onDragEnter={handleDragEvents} onDragLeave={handleDragEvents} onFileChange={handleFileChange} isDragging={isDragging} showHintsOption={allowHints} wantsHints={wantsHints} onWantsHintsChange={setWantsHints} onImportUrl={importFromUrl} isImporting={isImporting} onOpenCamera={() => { setInputError(null); setIsCapturing(true); }} error={inputError} showCompareOption={allowCompare} wantsCompare={wantsCompare} onWantsCompareChange={setWantsCompare} />
+              {allowCompare && wantsCompare && <CompareEndpointsEditor endpoints={endpoints} onChange={setEndpoints} />}
+            </motion.div>
+          )}
+
+          {status === 'idle' && isCapturing && (
+            <motion.div key="camera" initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="w-full">
+              <CameraCapture onCapture={file => handleFilesSelect([file])} onCancel={() => setIsCapturing(false)} />
+            </motion.div>
+          )}
+
+          {status === 'hinting' && hintFile && (
+            <motion.div key="hinting" initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="w-full">
+              <HintPainter file={hintFile} support={hintSupport} onSubmit={submitHints} onCancel={reset} />
+            </motion.div>
+          )}
+
+          {status === 'confirming' && colorInput && (
+            <motion.div key="confirming" initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="w-full">
+              <ColorInputPrompt file={colorInput} onChoose={confirmColorInput} onCancel={reset} />
             </motion.div>
           )}
 
           {status === 'uploading' && (
             <motion.div key="uploading" exit={{ opacity: 0, scale: 0.9 }} className="flex flex-col items-center">
-              <UploadingIndicator />
-              <p className="text-white mt-6 font-medium">Uploading Image...</p>
-              <p className="text-white text-sm font-mono truncate max-w-xs md:max-w-md">{fileName}</p>
+              {isReducedMotion ? <StaticUploadIcon /> : <UploadingIndicator />}
+              <p className="text-fg mt-6 font-medium">{t(uploadProgress === null ? 'upload.preparing' : 'upload.uploading')}</p>
+              <p className="text-fg text-sm font-mono truncate max-w-xs md:max-w-md">{fileName}</p>
+              {uploadProgress !== null && (
+                <div className="w-48 mt-3 flex items-center gap-2">
+                  <div className="flex-1 h-1.5 rounded-full bg-fg/10 overflow-hidden" role="progressbar" aria-valuenow={Math.round(uploadProgress * 100)} aria-valuemin={0} aria-valuemax={100} aria-label={t('upload.progress')}>
+                    <div className="h-full bg-accent-alt transition-[width] duration-200" style={{ width: `${uploadProgress * 100}%` }} />
+                  </div>
+                  <span className="text-xs font-mono text-fg/70 w-9 text-right">{Math.round(uploadProgress * 100)}%</span>
+                </div>
+              )}
+              <CancelButton onClick={cancel} />
             </motion.div>
           )}
 
           {status === 'processing' && (
             <motion.div key="processing" initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="w-full flex flex-col items-center">
-              <div aria-live="polite" className="text-center mb-4 h-12 flex flex-col justify-center">
-                <p className="text-white font-medium text-lg">{stageIndex > -1 ? STAGES[stageIndex].name : "Initializing Pipeline..."}</p>
-                <p className="text-white text-sm font-mono truncate max-w-xs md:max-w-md">{fileName}</p>
+              <div className="text-center mb-4 min-h-12 flex flex-col justify-center">
+                <p className="text-fg font-medium text-lg">{stageIndex > -1 ? stageNames[stageIndex] : t('processing.initializing')}</p>
+                <p className="text-fg text-sm font-mono truncate max-w-xs md:max-w-md">{fileName}</p>
+                {frame && <p className="text-accent text-xs font-mono mt-1">{t('processing.frame', { index: frame.index, total: frame.total })}</p>}
+                {retryAttempt > 0 && <p className="text-amber-300 text-xs mt-1">{t('processing.retrying', { attempt: retryAttempt, retries: retryLimit })}</p>}
               </div>
 
-              <div className="relative w-full max-w-3xl aspect-[4/2] md:aspect-auto">
-                <svg viewBox={viewBox} className="w-full h-full" preserveAspectRatio="xMidYMid meet">
+              {isReducedMotion ? <StaticStepper stages={stages} stageNames={stageNames} stageIndex={stageIndex} /> : <div ref={measureContainer} className="relative w-full max-w-3xl">
+                {pipelineWidth > 0 && <svg viewBox={viewBox} width={layout.width} height={layout.height} className="block">
                   <defs>
                     <linearGradient id="pipeGradient" x1="0%" y1="0%" x2="100%" y2="0%">
-                        <stop offset="0%" stopColor="var(--accent-teal)" />
-                        <stop offset="100%" stopColor="#BD34FE" />
+                        <stop offset="0%" stopColor={THEME_COLORS.accent} />
+                        <stop offset="100%" stopColor={THEME_COLORS.accentAlt} />
                     </linearGradient>
                   </defs>
-                  <path ref={measurePath} d={path} fill="none" stroke="rgba(4, 217, 255, 0.15)" strokeWidth="16" strokeLinecap="round" strokeLinejoin="round" />
+                  <path ref={measurePath} d={path} fill="none" stroke={THEME_COLORS.accent} strokeOpacity={0.15} strokeWidth="16" strokeLinecap="round" strokeLinejoin="round" />
                   {pathLength > 0 && <AnimatedPipeAndDot pathRef={pathRef} path={path} pathLength={pathLength} progress={dotProgress} startX={nodes[0].cx} startY={nodes[0].cy} />}
-                  {nodes.map((node, i) => <PipelineNode key={i} {...node} label={STAGES[i].name} Icon={STAGES[i].icon} isActive={stageIndex >= i} isCurrent={stageIndex === i} isMobile={isMobile} />)}
-                </svg>
-              </div>
+                  {nodes.map((node, i) => <PipelineNode key={stages[i].key} {...node} fontSize={layout.fontSize} label={stageNames[i]} Icon={stageIcon(stages[i])} isActive={stageIndex >= i} isCurrent={stageIndex === i} />)}
+                </svg>}
+              </div>}
               
               <div className="w-full max-w-md mt-8">
-                  <div className="flex justify-between text-xs uppercase tracking-widest text-[#04D9FF] mb-2 font-bold">
-                    <span className="drop-shadow-[0_0_5px_rgba(4,217,255,0.5)]">Colorizing<ProcessingDots /></span>
-                    <span className="drop-shadow-[0_0_5px_rgba(4,217,255,0.5)]">{progress.toFixed(0)}%</span>
+                  <div className="flex justify-between text-xs uppercase tracking-widest text-accent mb-2 font-bold">
+                    <span className="drop-shadow-[0_0_5px_var(--theme-glow)]">{t('processing.colorizing')}{!isReducedMotion && <ProcessingDots />}</span>
+                    <span className="drop-shadow-[0_0_5px_var(--theme-glow)]">{progress.toFixed(0)}%</span>
                   </div>
-                  <div className="w-full bg-black/50 rounded-full h-3 relative overflow-hidden border border-[#04D9FF]/30 shadow-[inset_0_2px_4px_rgba(0,0,0,0.8)]" role="progressbar" aria-valuenow={progress} aria-valuemin={0} aria-valuemax={100} aria-label="Analysis Progress">
+                  <div className="w-full bg-canvas/50 rounded-full h-3 relative overflow-hidden border border-accent/30 shadow-[inset_0_2px_4px_rgba(0,0,0,0.8)]" role="progressbar" aria-valuenow={Math.round(progress)} aria-valuemin={0} aria-valuemax={100} aria-valuetext={`${Math.round(progress)}%${stageIndex > -1 ? `, ${stageNames[stageIndex]}` : ''}`} aria-label={t('processing.progress')}>
                     <motion.div 
                       className="absolute top-0 left-0 h-full rounded-full" 
                       style={{ 
                           width: `${progress}%`, 
-                          background: 'linear-gradient(90deg, #04D9FF 0%, #BD34FE 100%)',
-                          boxShadow: '0 0 15px rgba(4, 217, 255, 0.6)'
+                          background: `linear-gradient(90deg, ${THEME_COLORS.accent} 0%, ${THEME_COLORS.accentAlt} 100%)`,
+                          boxShadow: isReducedMotion ? undefined : `0 0 15px ${THEME_COLORS.glow}`
                       }} 
                       transition={{ type: 'spring', stiffness: 120, damping: 18 }}
                     >
@@ -288,24 +402,50 @@ const ImageColorizer: React.FC<ImageColorizerProps> = ({
                     </motion.div>
                   </div>
               </div>
+              <CancelButton onClick={cancel} />
+            </motion.div>
+          )}
+
+          {(status === 'error' || status === 'cancelled') && (
+            <motion.div key="failure" initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="w-full">
+              <FailureView cancelled={status === 'cancelled'} message={error} fileName={fileName} onRetry={retry} onChooseAnother={reset} />
             </motion.div>
           )}
 
           {status === 'complete' && result && (
              <motion.div key="complete" initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.5, ease: 'easeOut' }} className="text-center w-full">
-                <ResultView result={result} onReset={resetState} ctaRef={resultCtaRef} />
+                <ResultView result={result} onReset={reset} ctaRef={resultCtaRef} onAdjust={updateResult} onRerun={forceRerun} />
+            </motion.div>
+          )}
+
+          {status === 'comparing' && (
+             <motion.div key="comparing" initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="w-full">
+                <BackendComparison file={compareFile} entries={comparison} isRunning={isComparing} onPick={pickWinner} onReset={reset} onCancel={cancel} />
+            </motion.div>
+          )}
+
+          {status === 'batch' && (
+             <motion.div key="batch" initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }} className="w-full">
+                <BatchView items={batchItems} stages={stages} stageNames={stageNames} isRunning={isBatchRunning} onReset={reset} onCancel={cancel} />
             </motion.div>
           )}
         </AnimatePresence>
+        </MotionConfig>
       </div>
-    </>
+    </LocaleContext.Provider>
   );
 };
 
-const Dropzone: React.FC<any> = ({ theme, onDrop, onDragOver, onDragEnter, onDragLeave, onFileChange, isDragging }) => {
+const Dropzone: React.FC<any> = ({ onDrop, onDragOver, onDragEnter, onDragLeave, onFileChange, isDragging, showHintsOption, wantsHints, onWantsHintsChange, onImportUrl, isImporting, onOpenCamera, error, showCompareOption, wantsCompare, onWantsCompareChange }) => {
+    const t = useTranslation();
     const inputRef = useRef<HTMLInputElement>(null);
+    const [url, setUrl] = useState('');
     const triggerUpload = () => inputRef.current?.click();
-    const isBlue = theme === 'blue';
+
+    const handleImportSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (url.trim()) onImportUrl(url.trim());
+    };
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' || e.key === ' ') {
@@ -319,24 +459,124 @@ const Dropzone: React.FC<any> = ({ theme, onDrop, onDragOver, onDragEnter, onDra
             onDragOver={onDragOver} 
             onDragEnter={onDragEnter} 
             onDragLeave={onDragLeave} 
-            className={`w-full h-full p-8 border-2 border-dashed rounded-lg flex flex-col justify-center items-center transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-[#04D9FF] ${isDragging ? 'border-[#04D9FF] bg-[#04D9FF]/10' : (isBlue ? 'border-[#04D9FF]' : 'border-white/20')}`}
+            className={`w-full h-full p-8 border-2 border-dashed rounded-lg flex flex-col justify-center items-center transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-accent ${isDragging ? 'border-accent bg-accent/10' : 'border-accent/60'}`}
             role="button"
             tabIndex={0}
             onKeyDown={handleKeyDown}
-            aria-label="Upload Image Dropzone"
+            aria-label={t('dropzone.label')}
         >
-            <input ref={inputRef} type="file" accept="image/*" className="hidden" onChange={onFileChange} />
+            <input ref={inputRef} type="file" accept="image/*" multiple className="hidden" onChange={onFileChange} />
             
-            <svg onClick={triggerUpload} xmlns="http://www.w3.org/2000/svg" className={`w-16 h-16 mb-4 transition-colors cursor-pointer hover:text-[#04D9FF] ${isDragging ? 'text-[#04D9FF]' : 'text-white'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5} aria-hidden="true">
+            <svg onClick={triggerUpload} xmlns="http://www.w3.org/2000/svg" className={`w-16 h-16 mb-4 transition-colors cursor-pointer hover:text-accent ${isDragging ? 'text-accent' : 'text-fg'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5} aria-hidden="true">
                 <rect x="3" y="3" width="18" height="18" rx="2" ry="2" />
                 <circle cx="8.5" cy="8.5" r="1.5" />
                 <polyline points="21 15 16 10 5 21" />
             </svg>
 
-            <div onClick={triggerUpload} className="px-6 py-4 rounded-xl flex flex-col items-center cursor-pointer transition-colors border bg-white/10 border-white/10 backdrop-blur-sm hover:bg-white/20">
-              <p className="text-white font-semibold text-lg">Drag & drop a B/W image here</p>
-              <p className="text-white/60 my-2 text-sm uppercase tracking-wider">or</p>
-              <button type="button" tabIndex={-1} className={`px-6 py-2 font-bold rounded transition-all focus:outline-none ${isBlue ? 'bg-[#04D9FF] text-black ring-1 ring-offset-4 ring-[#04D9FF] ring-offset-[#0a192f] hover:bg-[#04D9FF]/90' : 'bg-[#04D9FF] text-white hover:bg-opacity-80 focus:ring-offset-black focus:ring-[#04D9FF]'}`}>Browse Files</button>
+            <div onClick={triggerUpload} className="px-6 py-4 rounded-xl flex flex-col items-center cursor-pointer transition-colors border bg-fg/10 border-fg/10 backdrop-blur-sm hover:bg-fg/20">
+              <p className="text-fg font-semibold text-lg">{t('dropzone.title')}</p>
+              <p className="text-fg/60 my-2 text-sm uppercase tracking-wider">{t('dropzone.or')}</p>
+              <button type="button" tabIndex={-1} className="px-6 py-2 font-bold rounded transition-all focus:outline-none bg-accent text-on-accent ring-1 ring-offset-4 ring-accent ring-offset-canvas hover:bg-accent/90">{t('dropzone.browse')}</button>
+              <p className="text-fg/50 mt-3 text-xs">{t('dropzone.hint')}</p>
+            </div>
+
+            <div className="mt-5 w-full max-w-md flex flex-col sm:flex-row items-stretch gap-2" onKeyDown={e => e.stopPropagation()}>
+              <form onSubmit={handleImportSubmit} className="flex flex-1 gap-2">
+                <input type="url" value={url} onChange={e => setUrl(e.target.value)} placeholder="https://example.com/photo.jpg" aria-label={t('dropzone.url')} className="flex-1 min-w-0 px-3 py-1.5 rounded-lg border border-fg/20 bg-canvas text-fg text-sm placeholder:text-fg/40 focus:outline-none focus:ring-2 focus:ring-accent" />
+                <button type="submit" disabled={isImporting || !url.trim()} className="px-3 py-1.5 rounded-lg border border-fg/20 text-fg text-xs font-bold uppercase tracking-widest hover:bg-fg/10 disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-accent">
+                  {isImporting ? t('dropzone.importing') : t('dropzone.import')}
+                </button>
+              </form>
+              <button type="button" onClick={onOpenCamera} className="px-3 py-1.5 rounded-lg border border-fg/20 text-fg text-xs font-bold uppercase tracking-widest hover:bg-fg/10 focus:outline-none focus:ring-2 focus:ring-accent">
+                {t('dropzone.camera')}
+              </button>
+            </div>
+
+            {error && <p role="alert" className="mt-4 px-4 py-2 rounded-lg bg-red-500/15 border border-red-400/40 text-red-200 text-sm max-w-lg text-center">{error}</p>}
+
+            {showHintsOption && (
+              <label className="mt-4 flex items-center gap-2 text-fg/70 text-sm cursor-pointer" onKeyDown={e => e.stopPropagation()}>
+                <input type="checkbox" checked={wantsHints} onChange={e => onWantsHintsChange(e.target.checked)} className="accent-accent" />
+                {t('dropzone.hints')}
+              </label>
+            )}
+
+            {showCompareOption && (
+              <label className="mt-2 flex items-center gap-2 text-fg/70 text-sm cursor-pointer" onKeyDown={e => e.stopPropagation()}>
+                <input type="checkbox" checked={wantsCompare} onChange={e => onWantsCompareChange(e.target.checked)} className="accent-accent" />
+                {t('dropzone.compare')}
+              </label>
+            )}
+        </div>
+    );
+};
+
+const ColorInputPrompt: React.FC<{ file: File, onChoose: (choice: ColorInputChoice) => void, onCancel: () => void }> = ({ file, onChoose, onCancel }) => {
+    const t = useTranslation();
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const desaturateRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        const url = URL.createObjectURL(file);
+        setPreviewUrl(url);
+        desaturateRef.current?.focus();
+        return () => URL.revokeObjectURL(url);
+    }, [file]);
+
+    return (
+        <div className="flex flex-col items-center text-center" role="region" aria-label={t('colorInput.label')}>
+            <h2 className="text-2xl font-bold tracking-wider text-fg mb-2">{t('colorInput.title')}</h2>
+            <p className="text-fg/60 text-sm mb-4 max-w-lg">{t('colorInput.body')}</p>
+            {previewUrl && <img src={previewUrl} alt={t('colorInput.preview', { name: file.name })} className="max-h-48 max-w-full rounded-lg border border-fg/20 mb-2" />}
+            <p className="text-fg/60 text-sm font-mono truncate max-w-xs md:max-w-md">{file.name}</p>
+            <div className="flex flex-wrap justify-center gap-3 mt-6">
+                <button type="button" onClick={onCancel} className="px-6 py-2.5 rounded-lg border border-fg/20 text-fg font-bold hover:bg-fg/10 transition-colors focus:outline-none focus:ring-2 focus:ring-fg/60">
+                    {t('common.cancel')}
+                </button>
+                <button type="button" onClick={() => onChoose('keep')} className="px-6 py-2.5 bg-fg text-canvas font-bold rounded-lg hover:bg-fg/80 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-fg">
+                    {t('colorInput.keep')}
+                </button>
+                <button ref={desaturateRef} type="button" onClick={() => onChoose('desaturate')} className="px-6 py-2.5 bg-accent text-on-accent font-bold rounded-lg hover:bg-accent/90 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-accent">
+                    {t('colorInput.desaturate')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const CancelButton: React.FC<{ onClick: () => void }> = ({ onClick }) => {
+    const t = useTranslation();
+    return (
+        <button type="button" onClick={onClick} className="mt-6 px-5 py-1.5 text-sm font-medium text-fg/80 border border-fg/20 rounded-lg hover:bg-fg/10 hover:text-fg transition-colors focus:outline-none focus:ring-2 focus:ring-fg/60">
+            {t('common.cancel')}
+        </button>
+    );
+};
+
+const FailureView: React.FC<{ cancelled: boolean, message: string | null, fileName: string | null, onRetry: () => void, onChooseAnother: () => void }> = ({ cancelled, message, fileName, onRetry, onChooseAnother }) => {
+    const t = useTranslation();
+    const retryRef = useRef<HTMLButtonElement>(null);
+    useEffect(() => { retryRef.current?.focus(); }, []);
+
+    return (
+        <div className="flex flex-col items-center text-center">
+            <div className={`w-14 h-14 rounded-full flex items-center justify-center mb-4 ${cancelled ? 'bg-fg/10 text-fg' : 'bg-red-500/20 text-red-300'}`}>
+                <svg xmlns="http://www.w3.org/2000/svg" className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2} aria-hidden="true">
+                    {cancelled
+                      ? <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                      : <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v4m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" />}
+                </svg>
+            </div>
+            <h2 className="text-2xl font-bold tracking-wider text-fg mb-2">{t(cancelled ? 'failure.cancelled' : 'failure.failed')}</h2>
+            {fileName && <p className="text-fg/60 text-sm font-mono truncate max-w-xs md:max-w-md mb-2">{fileName}</p>}
+            {!cancelled && message && <p className="text-red-200 text-sm max-w-lg mb-2 break-words">{message}</p>}
+            <div className="flex flex-wrap justify-center gap-3 mt-6">
+                <button ref={retryRef} type="button" onClick={onRetry} className="px-8 py-2.5 bg-accent text-on-accent font-bold rounded-lg hover:bg-accent/90 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-accent">
+                    {t('common.retry')}
+                </button>
+                <button type="button" onClick={onChooseAnother} className="px-8 py-2.5 bg-fg text-canvas font-bold rounded-lg hover:bg-fg/80 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-fg">
+                    {t('common.chooseAnother')}
+                </button>
             </div>
         </div>
     );
@@ -344,36 +584,57 @@ const Dropzone: React.FC<any> = ({ theme, onDrop, onDragOver, onDragEnter, onDra
 
 const UploadingIndicator = () => (
     <div className="relative w-32 h-32">
-        <motion.div className="absolute inset-0 border-4 border-dashed border-accent-purple rounded-full" animate={{ rotate: 360 }} transition={{ ease: 'linear', duration: 10, repeat: Infinity }} />
-        <motion.div className="absolute inset-2 border-2 border-accent-purple rounded-full" animate={{ scale: [1, 1.1, 1], opacity: [0.5, 1, 0.5] }} transition={{ duration: 1.5, repeat: Infinity }} />
-        <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100"><motion.circle cx="50" cy="50" r="45" stroke="var(--accent-purple)" strokeWidth="6" fill="none" strokeDasharray="283" initial={{ pathLength: 0, opacity: 0 }} animate={{ pathLength: 0.25, opacity: 1, rotate: -90 }} transition={{ duration: 1, repeat: Infinity, repeatType: 'reverse', ease: 'easeInOut' }} style={{ transformOrigin: '50% 50%' }} /></svg>
+        <motion.div className="absolute inset-0 border-4 border-dashed border-accent-alt rounded-full" animate={{ rotate: 360 }} transition={{ ease: 'linear', duration: 10, repeat: Infinity }} />
+        <motion.div className="absolute inset-2 border-2 border-accent-alt rounded-full" animate={{ scale: [1, 1.1, 1], opacity: [0.5, 1, 0.5] }} transition={{ duration: 1.5, repeat: Infinity }} />
+        <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100"><motion.circle cx="50" cy="50" r="45" stroke={THEME_COLORS.accentAlt} strokeWidth="6" fill="none" strokeDasharray="283" initial={{ pathLength: 0, opacity: 0 }} animate={{ pathLength: 0.25, opacity: 1, rotate: -90 }} transition={{ duration: 1, repeat: Infinity, repeatType: 'reverse', ease: 'easeInOut' }} style={{ transformOrigin: '50% 50%' }} /></svg>
     </div>
 );
 
-const PipelineNode: React.FC<any> = ({ cx, cy, label, Icon, isActive, isCurrent, isMobile }) => {
-  const textY = isMobile ? (cy > 200 ? cy + 30 : cy + 25) : (cy > 100 ? cy + 50 : cy - 40);
-  const textAnchor = isMobile ? (cx < 150 ? 'end' : 'start') : 'middle';
-  const textX = isMobile ? (cx < 150 ? cx - 20 : cx + 20) : cx;
+const StaticUploadIcon = () => (
+    <div className="w-32 h-32 rounded-full border-4 border-accent-alt flex items-center justify-center text-accent-alt">
+        <svg xmlns="http://www.w3.org/2000/svg" className="w-12 h-12" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2} aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+        </svg>
+    </div>
+);
 
-  const words = label.split(' ');
-  let line1 = label;
-  let line2 = '';
-  
-  if (words.length > 2 && label.length > 20) {
-      const mid = Math.ceil(words.length / 2);
-      line1 = words.slice(0, mid).join(' ');
-      line2 = words.slice(mid).join(' ');
-  }
+/** The pipeline as a plain ordered list, for users who asked for reduced motion. */
+const StaticStepper: React.FC<{ stages: StageDefinition[], stageNames: string[], stageIndex: number }> = ({ stages, stageNames, stageIndex }) => {
+    const t = useTranslation();
+    return (
+        <ol className="w-full max-w-md flex flex-col gap-2" aria-label={t('processing.stages')}>
+            {stages.map((stage, i) => {
+                const state = t(i < stageIndex ? 'processing.stageDone' : i === stageIndex ? 'processing.stageCurrent' : 'processing.stagePending');
+                const Icon = stageIcon(stage);
+                return (
+                    <li key={stage.key} aria-current={i === stageIndex ? 'step' : undefined} className={`flex items-center gap-3 px-4 py-2 rounded-lg border ${i === stageIndex ? 'border-accent bg-accent/10' : 'border-fg/10'} ${i > stageIndex ? 'opacity-60' : ''}`}>
+                        <svg viewBox="0 0 24 24" className="w-6 h-6 shrink-0" aria-hidden="true">
+                            <Icon fill={i <= stageIndex ? THEME_COLORS.accent : THEME_COLORS.fgMuted} />
+                        </svg>
+                        <span className={`flex-1 text-sm ${i === stageIndex ? 'text-fg font-semibold' : 'text-fg/80'}`}>{stageNames[i]}</span>
+                        <span className="text-xs uppercase tracking-widest text-fg/60">{state}</span>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+};
+
+const PipelineNode: React.FC<any> = ({ cx, cy, labelX, labelY, labelPosition, labelMaxWidth, fontSize, label, Icon, isActive, isCurrent }) => {
+  const textAnchor = labelPosition === 'right' ? 'start' : 'middle';
+  const [line1, line2] = splitLabel(label, labelMaxWidth, fontSize);
+  // Wrapped labels grow away from the node: upwards above it, around the centre beside it.
+  const firstLineDy = !line2 ? '0' : labelPosition === 'above' ? '-1.2em' : labelPosition === 'right' ? '-0.6em' : '0';
 
   return (
     <motion.g initial={{ scale: 1, opacity: 0.7 }} animate={isActive ? "active" : "inactive"} variants={{ active: { scale: 1.12, opacity: 1, transition: { duration: 0.22 } }, inactive: { scale: 1, opacity: 0.7 }}}>
-      {isActive && <motion.circle cx={cx} cy={cy} r="25" fill="var(--accent-teal)" initial={{ scale: 0, opacity: 0 }} animate={{ scale: 1, opacity: 0.1 }} transition={{ delay: 0.2 }} />}
-      <motion.circle cx={cx} cy={cy} r="16" fill="var(--bg-color)" stroke={isActive ? "var(--accent-teal)" : "var(--text-secondary)"} strokeWidth="2" className={isActive ? 'breathing-glow' : ''} />
-      <Icon fill={isActive ? "var(--accent-teal)" : "var(--text-secondary)"} transform={`translate(${cx-12}, ${cy-12})`} />
+      {isActive && <motion.circle cx={cx} cy={cy} r="25" fill={THEME_COLORS.accent} initial={{ scale: 0, opacity: 0 }} animate={{ scale: 1, opacity: 0.1 }} transition={{ delay: 0.2 }} />}
+      <motion.circle cx={cx} cy={cy} r="16" fill={THEME_COLORS.canvas} stroke={isActive ? THEME_COLORS.accent : THEME_COLORS.fgMuted} strokeWidth="2" className={isActive ? 'breathing-glow' : ''} />
+      <Icon fill={isActive ? THEME_COLORS.accent : THEME_COLORS.fgMuted} transform={`translate(${cx-12}, ${cy-12})`} />
       
-      <text x={textX} y={textY} textAnchor={textAnchor} fontSize={isMobile ? "12" : "14"} className="transition-fill duration-300" fill={isActive ? "#FFFFFF" : "#94a3b8"} style={{ fontWeight: isActive ? 600 : 400 }}>
-          <tspan x={textX} dy="0">{line1}</tspan>
-          {line2 && <tspan x={textX} dy="1.2em">{line2}</tspan>}
+      <text x={labelX} y={labelY} textAnchor={textAnchor} fontSize={fontSize} className="transition-fill duration-300" fill={isActive ? THEME_COLORS.fg : THEME_COLORS.fgMuted} style={{ fontWeight: isActive ? 600 : 400 }}>
+          <tspan x={labelX} dy={firstLineDy}>{line1}</tspan>
+          {line2 && <tspan x={labelX} dy="1.2em">{line2}</tspan>}
       </text>
     </motion.g>
   );
@@ -410,22 +671,22 @@ const AnimatedPipeAndDot = ({ pathRef, path, pathLength, progress, startX, start
 
     return (
         <>
-            <motion.path d={path} fill="none" stroke="url(#pipeGradient)" strokeWidth="16" strokeLinecap="round" strokeLinejoin="round" style={{ strokeDasharray: pathLength, strokeDashoffset, filter: 'var(--glow-teal)' }}/>
+            <motion.path d={path} fill="none" stroke="url(#pipeGradient)" strokeWidth="16" strokeLinecap="round" strokeLinejoin="round" style={{ strokeDasharray: pathLength, strokeDashoffset, filter: `drop-shadow(0 0 8px ${THEME_COLORS.glow})` }}/>
             {/* Trail effect */}
-            <motion.ellipse cx={trailX} cy={trailY} rx="20" ry="8" fill="var(--accent-teal)" style={{ opacity: 0.3, filter: 'blur(8px)' }} />
+            <motion.ellipse cx={trailX} cy={trailY} rx="20" ry="8" fill={THEME_COLORS.accent} style={{ opacity: 0.3, filter: 'blur(8px)' }} />
             
             {/* Main glowing ball */}
             <motion.g style={{ x: pos.x, y: pos.y }}>
                 {/* Outer pulsing ring */}
                 <motion.circle 
                     r="20" 
-                    fill="var(--accent-teal)" 
+                    fill={THEME_COLORS.accent}
                     initial={{ opacity: 0, scale: 0.5 }}
                     animate={{ opacity: [0, 0.4, 0], scale: [0.5, 1.5, 2] }}
                     transition={{ duration: 1.5, repeat: Infinity, ease: "easeOut" }}
                 />
                 {/* Inner glow */}
-                <circle r="12" fill="var(--accent-teal)" style={{ filter: 'blur(4px)', opacity: 0.8 }} />
+                <circle r="12" fill={THEME_COLORS.accent} style={{ filter: 'blur(4px)', opacity: 0.8 }} />
                 {/* Core */}
                 <circle r="8" fill="white" style={{ filter: 'drop-shadow(0 0 4px white)' }} />
             </motion.g>
@@ -433,42 +694,66 @@ const AnimatedPipeAndDot = ({ pathRef, path, pathLength, progress, startX, start
     );
 };
 
-const ResultView: React.FC<{ result: ColorizationResult, onReset: () => void, ctaRef: React.RefObject<HTMLButtonElement> }> = ({ result, onReset, ctaRef }) => {
+const BATCH_STATUS_STYLES: Record<BatchItem['status'], string> = {
+  queued: 'bg-fg/10 text-fg/70',
+  processing: 'bg-accent/20 text-accent',
+  done: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300',
+};
+
+const BatchView: React.FC<{ items: BatchItem[], stages: PipelineStage[], stageNames: string[], isRunning: boolean, onReset: () => void, onCancel: () => void }> = ({ items, stages, stageNames, isRunning, onReset, onCancel }) => {
+  const t = useTranslation();
+  // Items still queued after the run ended were cancelled.
+  const cancelled = !isRunning && items.some(item => item.status === 'queued');
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const finishedCount = doneCount + failedCount;
+  const completed = items.filter(item => item.status === 'done' && item.result);
+
   return (
-    <div className="flex flex-col items-center w-full" role="region" aria-live="polite" aria-label="Colorization Result">
-      <h2 className="text-2xl font-bold tracking-wider text-white mb-6">
-        Colorization Complete
+    <div className="flex flex-col items-center w-full" role="region" aria-label={t('batch.label')}>
+      <h2 className="text-2xl font-bold tracking-wider text-fg mb-2">
+        {isRunning ? t('batch.running', { count: items.length }) : t(cancelled ? 'batch.cancelled' : 'batch.complete')}
       </h2>
-      
-      <div className="flex flex-col md:flex-row gap-4 w-full max-w-4xl justify-center items-center">
-          <div className="flex flex-col items-center">
-              <p className="text-gray-400 mb-2 text-sm uppercase tracking-widest">Original</p>
-              <img src={result.originalUrl} alt="Original B/W" className="max-w-xs md:max-w-sm rounded-lg border border-white/20 shadow-lg grayscale" />
-          </div>
-          
-          <div className="text-white text-2xl font-bold">→</div>
-
-          <div className="flex flex-col items-center">
-              <p className="text-[#04D9FF] mb-2 text-sm uppercase tracking-widest font-bold">Colorized</p>
-              <div className="relative group">
-                <img src={result.colorizedUrl} alt="Colorized Output" className="max-w-xs md:max-w-sm rounded-lg border-2 border-[#04D9FF] shadow-[0_0_20px_rgba(4,217,255,0.3)]" />
-                <a 
-                    href={result.colorizedUrl} 
-                    download="colorized_image.png"
-                    className="absolute bottom-3 right-3 p-3 bg-black/60 text-white rounded-full hover:bg-[#04D9FF] hover:text-black transition-all backdrop-blur-md border border-white/10 opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0 duration-300 shadow-lg"
-                    title="Download Image"
-                >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                    </svg>
-                </a>
-              </div>
-          </div>
-      </div>
-      
-      <button ref={ctaRef} onClick={onReset} className="mt-10 px-10 py-3 bg-white text-black font-bold rounded-lg hover:bg-gray-200 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-black focus:ring-white shadow-lg hover:shadow-xl transform hover:-translate-y-0.5">
-        Colorize Another Image
-      </button>
+      <p aria-live="polite" className="text-fg/70 text-sm mb-6">
+        {t('batch.finished', { finished: finishedCount, count: items.length })}{failedCount > 0 ? ` · ${t('batch.failed', { count: failedCount })}` : ''}
+      </p>
+
+      <ul className="w-full max-w-2xl divide-y divide-fg/10 border border-fg/10 rounded-lg mb-8 max-h-64 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+            <span className="text-fg font-mono truncate">{item.file.name}</span>
+            <span className="flex items-center gap-3 shrink-0">
+              {item.status === 'processing' && item.stage && (
+                <span className="text-fg/50 text-xs">{stageNames[stages.findIndex(s => s.key === item.stage)]}</span>
+              )}
+              <span title={item.error} className={`px-2 py-0.5 rounded text-xs uppercase tracking-widest font-bold ${BATCH_STATUS_STYLES[item.status]}`}>
+                {t(`batch.status.${item.status}`)}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {completed.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 w-full max-w-4xl">
+          {completed.map(item => (
+            <a key={item.id} href={item.result!.colorizedUrl} download={`colorized_${item.file.name.replace(/\.[^.]+$/, '')}.png`} className="group relative block rounded-lg overflow-hidden border border-accent/40 hover:border-accent transition-colors" title={t('batch.download', { name: item.file.name })}>
+              <img src={item.result!.colorizedUrl} alt={t('batch.colorizedAlt', { name: item.file.name })} className="w-full aspect-square object-cover" />
+              {item.result!.diagnostics && item.result!.diagnostics.flags.length > 0 && (
+                <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded bg-amber-400 text-black text-[10px] font-bold uppercase tracking-widest" title={t(item.result!.diagnostics.flags.includes('low-chroma') ? 'batch.checkLowChroma' : 'batch.checkLuminance')}>
+                  {t('batch.check')}
+                </span>
+              )}
+              <span className="absolute bottom-0 inset-x-0 px-2 py-1 bg-canvas/60 text-fg text-xs truncate">{item.file.name}</span>
+            </a>
+          ))}
+        </div>
+      )}
+
+      {isRunning
+        ? <button type="button" onClick={onCancel} className="mt-10 px-5 py-1.5 text-sm font-medium text-fg/80 border border-fg/20 rounded-lg hover:bg-fg/10 hover:text-fg transition-colors focus:outline-none focus:ring-2 focus:ring-fg/60">{t('common.cancel')}</button>
+        : <button onClick={onReset} className="mt-10 px-10 py-3 bg-fg text-canvas font-bold rounded-lg hover:bg-fg/80 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-fg shadow-lg">{t('batch.more')}</button>}
     </div>
   );
 };
@@ -0,0 +1,156 @@
+import React, { useState, useRef } from 'react';
+import type { ColorizationResult } from '../types';
+import ComparisonViewer from './ComparisonViewer';
+import AdjustmentEditor from './AdjustmentEditor';
+import ExportDialog from './ExportDialog';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import { useTranslation } from '../utils/i18n';
+
+interface ResultViewProps {
+  result: ColorizationResult;
+  onReset: () => void;
+  ctaRef?: React.Ref<HTMLButtonElement>;
+  /** Label of the primary button, e.g. "Close" when reopened from history. */
+  resetLabel?: string;
+  title?: string;
+  /** Enables the adjustment editor; receives the corrected result on "Apply". */
+  onAdjust?: (adjusted: ColorizationResult) => void;
+  /** Offered on cached results: colorize the input again instead. */
+  onRerun?: () => void;
+}
+
+const ResultView: React.FC<ResultViewProps> = ({
+  result,
+  onReset,
+  ctaRef,
+  resetLabel,
+  title,
+  onAdjust,
+  onRerun,
+}) => {
+  const t = useTranslation();
+  const resetText = resetLabel ?? t('result.reset');
+  const [isEditing, setIsEditing] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const downloadRef = useRef<HTMLAnchorElement>(null);
+
+  // The editor and the export composites work on a single frame.
+  const isAnimated = !!result.animation;
+  const extension = result.animation?.format === 'gif' ? 'gif' : 'png';
+
+  const handleApply = (adjusted: ColorizationResult) => {
+    setIsEditing(false);
+    onAdjust?.(adjusted);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || isEditing || isExportOpen) return;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+    switch (e.key.toLowerCase()) {
+      case 'd': downloadRef.current?.click(); break;
+      case 'e': if (isAnimated) return; setIsExportOpen(true); break;
+      case 'a': if (!onAdjust || isAnimated) return; setIsEditing(true); break;
+      case 'i': if (isAnimated) return; setIsDiagnosticsOpen(open => !open); break;
+      case 'n': onReset(); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  const altParams = { name: result.fileName, width: result.width, height: result.height };
+  const originalAlt = t(result.animation ? 'result.originalAnimationAlt' : 'result.originalPhotoAlt', altParams);
+  const colorizedAlt = t(result.animation ? 'result.colorizedAnimationAlt' : 'result.colorizedPhotoAlt', altParams);
+
+  return (
+    <div className="flex flex-col items-center w-full" role="region" aria-label={t('result.label')} onKeyDown={handleKeyDown}>
+      <h2 className="text-2xl font-bold tracking-wider text-fg mb-6">
+        {title ?? t('result.title')}
+      </h2>
+      <p className="text-fg/50 text-xs uppercase tracking-widest -mt-4 mb-6">
+        {result.width}×{result.height} · {result.animation
+          ? t('result.frames', { count: result.animation.frameCount, seconds: (result.animation.durationMs / 1000).toFixed(1), format: result.animation.format.toUpperCase() })
+          : t(result.mode === 'full-resolution' ? 'result.fullResolution' : 'result.serverOutput')}
+      </p>
+      {result.fromCache && (
+        <div className="flex flex-wrap items-center justify-center gap-3 -mt-3 mb-6">
+          <span className="px-2 py-0.5 rounded bg-accent/15 border border-accent/40 text-accent text-xs uppercase tracking-widest" title={t('result.fromCacheTitle')}>
+            {t('result.fromCache')}
+          </span>
+          {onRerun && (
+            <button type="button" onClick={onRerun} className="text-fg/70 text-xs uppercase tracking-widest underline underline-offset-4 hover:text-fg focus:outline-none focus:ring-2 focus:ring-accent rounded">
+              {t('result.rerun')}
+            </button>
+          )}
+        </div>
+      )}
+      
+      {isEditing
+        ? <AdjustmentEditor result={result} onApply={handleApply} onCancel={() => setIsEditing(false)} />
+        : <ComparisonViewer originalUrl={result.originalUrl} colorizedUrl={result.colorizedUrl} originalAlt={originalAlt} colorizedAlt={colorizedAlt} className="max-w-4xl" />}
+
+      {!isEditing && (
+        <div className="mt-6 flex flex-wrap items-center justify-center gap-3">
+          <a 
+              ref={downloadRef}
+              href={result.colorizedUrl} 
+              aria-keyshortcuts="D"
+              download={`colorized_${result.fileName.replace(/\.[^.]+$/, '')}.${extension}`}
+              className="inline-flex items-center gap-2 px-5 py-2 bg-canvas/60 text-fg rounded-full hover:bg-accent hover:text-on-accent transition-all backdrop-blur-md border border-fg/10 duration-300 shadow-lg"
+              title={t('result.downloadTitle')}
+          >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              <span className="text-sm font-bold">{t('result.download')}</span>
+          </a>
+          {!isAnimated && (
+            <button type="button" onClick={() => setIsExportOpen(true)} aria-keyshortcuts="E" className="inline-flex items-center gap-2 px-5 py-2 bg-canvas/60 text-fg rounded-full hover:bg-accent hover:text-on-accent transition-all backdrop-blur-md border border-fg/10 duration-300 shadow-lg">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />
+              </svg>
+              <span className="text-sm font-bold">{t('result.export')}</span>
+            </button>
+          )}
+          {onAdjust && !isAnimated && (
+            <button type="button" onClick={() => setIsEditing(true)} aria-keyshortcuts="A" className="inline-flex items-center gap-2 px-5 py-2 bg-canvas/60 text-fg rounded-full hover:bg-accent hover:text-on-accent transition-all backdrop-blur-md border border-fg/10 duration-300 shadow-lg">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+              </svg>
+              <span className="text-sm font-bold">{t('result.adjust')}</span>
+            </button>
+          )}
+          {!isAnimated && (
+            <button type="button" onClick={() => setIsDiagnosticsOpen(open => !open)} aria-pressed={isDiagnosticsOpen} aria-keyshortcuts="I" className={`inline-flex items-center gap-2 px-5 py-2 rounded-full hover:bg-accent hover:text-on-accent transition-all backdrop-blur-md border border-fg/10 duration-300 shadow-lg ${isDiagnosticsOpen ? 'bg-accent text-on-accent' : 'bg-canvas/60 text-fg'}`}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+              </svg>
+              <span className="text-sm font-bold">{t('result.diagnostics')}</span>
+              {result.diagnostics && result.diagnostics.flags.length > 0 && <><span className="w-2 h-2 rounded-full bg-amber-400" aria-hidden="true" /><span className="sr-only">{t('result.hasWarnings')}</span></>}
+            </button>
+          )}
+        </div>
+      )}
+
+      {!isEditing && !isAnimated && isDiagnosticsOpen && <DiagnosticsPanel result={result} />}
+      
+      {!isEditing && (
+        <p className="mt-4 text-fg/40 text-xs" aria-hidden="true">
+          {t('result.shortcuts')} D {t('result.shortcutDownload')}
+          {!isAnimated && ` · E ${t('result.shortcutExport')}`}
+          {onAdjust && !isAnimated && ` · A ${t('result.shortcutAdjust')}`}
+          {!isAnimated && ` · I ${t('result.shortcutDiagnostics')}`} · N {resetText}
+        </p>
+      )}
+
+      <button ref={ctaRef} onClick={onReset} aria-keyshortcuts="N" className="mt-10 px-10 py-3 bg-fg text-canvas font-bold rounded-lg hover:bg-fg/80 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas focus:ring-fg shadow-lg hover:shadow-xl transform hover:-translate-y-0.5">
+        {resetText}
+      </button>
+
+      {isExportOpen && <ExportDialog result={result} onClose={() => setIsExportOpen(false)} />}
+    </div>
+  );
+};
+
+export default ResultView;
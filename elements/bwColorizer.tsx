@@ -0,0 +1,115 @@
+/// <reference types="vite/client" />
+// <bw-colorizer>: ImageColorizer packaged as a custom element for pages that
+// aren't React apps. Styles are compiled into the shadow root, so nothing leaks
+// in or out of the host page.
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import ImageColorizer from '../components/ImageColorizer';
+import { ColorizerClient, createHttpColorizerClient, envColorizerConfig } from '../services/colorizerClient';
+import type { ColorizationResult, ProgressReport } from '../types';
+import { isThemeName } from '../utils/theme';
+import styles from './bwColorizer.css?inline';
+
+export const TAG_NAME = 'bw-colorizer';
+
+export interface BwColorizerErrorDetail {
+  error: Error;
+  fileName: string;
+}
+
+/** `bw-progress` carries a `ProgressReport`, `bw-result` a `ColorizationResult`. */
+export interface BwColorizerEventMap {
+  'bw-progress': CustomEvent<ProgressReport>;
+  'bw-result': CustomEvent<ColorizationResult>;
+  'bw-error': CustomEvent<BwColorizerErrorDetail>;
+}
+
+const LEGACY_THEMES = ['black', 'blue'] as const;
+
+/**
+ * Parses "1, 1.5, 2.5, 2, 1" (seconds per stage, stages without a value keep
+ * their default); anything malformed falls back to the defaults.
+ */
+function parseStageDurations(value: string | null): number[] | undefined {
+  if (!value) return undefined;
+  const durations = value.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (durations.every(d => Number.isFinite(d) && d >= 0)) return durations;
+  console.warn(`<${TAG_NAME}>: ignoring stage-durations="${value}", expected non-negative numbers.`);
+  return undefined;
+}
+
+/**
+ * Attributes: `theme` ("dark" | "navy" | "light"; follows the system when
+ * absent), `endpoint` (backend base URL), `simulate` (boolean),
+ * `stage-durations` (seconds per stage, comma separated) and `lang` (UI
+ * language; inherited from the page's `lang` when absent, then the browser's).
+ *
+ *   <bw-colorizer endpoint="https://colorizer.example.com" theme="navy"></bw-colorizer>
+ */
+export class BwColorizerElement extends HTMLElement {
+  static observedAttributes = ['theme', 'endpoint', 'simulate', 'stage-durations', 'lang'];
+
+  private mount: HTMLDivElement;
+  private root: Root | null = null;
+  // Derived once per attribute change so ImageColorizer sees stable props.
+  private client: ColorizerClient | undefined;
+  private stageDurations: number[] | undefined;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = styles;
+    this.mount = document.createElement('div');
+    shadow.append(style, this.mount);
+  }
+
+  connectedCallback() {
+    this.root ??= createRoot(this.mount);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback(name: string, _oldValue: string | null, value: string | null) {
+    if (name === 'endpoint') this.client = value ? createHttpColorizerClient({ ...envColorizerConfig, baseUrl: value }) : undefined;
+    if (name === 'stage-durations') this.stageDurations = parseStageDurations(value);
+    this.render();
+  }
+
+  private emit<K extends keyof BwColorizerEventMap>(type: K, detail: BwColorizerEventMap[K]['detail']) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private render() {
+    if (!this.root) return;
+    const themeAttribute = this.getAttribute('theme');
+    const theme = isThemeName(themeAttribute) ? themeAttribute : LEGACY_THEMES.find(t => t === themeAttribute);
+    const simulate = this.hasAttribute('simulate') && this.getAttribute('simulate') !== 'false';
+    const locale = this.closest('[lang]')?.getAttribute('lang') ?? undefined;
+
+    this.root.render(
+      <ImageColorizer
+        theme={theme}
+        client={this.client}
+        simulate={simulate}
+        stageDurations={this.stageDurations}
+        locale={locale}
+        onProgress={report => this.emit('bw-progress', report)}
+        onResult={result => this.emit('bw-result', result)}
+        onError={(error, file) => this.emit('bw-error', { error, fileName: file.name })}
+      />
+    );
+  }
+}
+
+if (!customElements.get(TAG_NAME)) customElements.define(TAG_NAME, BwColorizerElement);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    [TAG_NAME]: BwColorizerElement;
+  }
+}
@@ -0,0 +1,128 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { ColorizationResult } from '../types';
+import { MessageKey, describeError, useTranslation } from '../utils/i18n';
+import {
+  HistoryEntry,
+  addHistoryEntry,
+  deleteHistoryEntry,
+  listHistoryEntries,
+  DEFAULT_HISTORY_QUOTA_BYTES,
+} from '../services/historyStore';
+
+export interface HistoryItem {
+  id: string;
+  sizeBytes: number;
+  /** Ready to hand to `ResultView`; URLs stay valid while the entry is listed. */
+  result: ColorizationResult;
+}
+
+/**
+ * Persistent colorization history backed by IndexedDB, one entry per result
+ * id: adding an adjusted or re-run result replaces its entry. Object URLs are
+ * created once per entry version and revoked once the items that replace
+ * them have rendered, or when the host unmounts. Hosts that show an entry
+ * should look it up by id in `items` so they always hold live URLs.
+ */
+export function useColorizationHistory(quotaBytes = DEFAULT_HISTORY_QUOTA_BYTES) {
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const t = useTranslation();
+  // Kept untranslated so the message follows the current locale.
+  const [error, setError] = useState<Error | MessageKey | null>(null);
+  const urlCache = useRef(new Map<string, { originalUrl: string; colorizedUrl: string; unadjustedUrl?: string }>());
+  // URLs of replaced or deleted entries; still rendered until the next `items` commit.
+  const retiredUrls = useRef<string[]>([]);
+
+  const toItem = (entry: HistoryEntry): HistoryItem => {
+    let urls = urlCache.current.get(entry.id);
+    if (!urls) {
+      urls = {
+        originalUrl: URL.createObjectURL(entry.original),
+        colorizedUrl: URL.createObjectURL(entry.colorized),
+        unadjustedUrl: entry.unadjusted && URL.createObjectURL(entry.unadjusted),
+      };
+      urlCache.current.set(entry.id, urls);
+    }
+    return {
+      id: entry.id,
+      sizeBytes: entry.sizeBytes,
+      result: {
+        id: entry.id,
+        ...urls,
+        fileName: entry.fileName,
+        width: entry.width,
+        height: entry.height,
+        backendId: entry.backendId,
+        createdAt: entry.createdAt,
+        mode: entry.mode ?? 'server',
+        animation: entry.animation,
+        adjustments: entry.adjustments,
+      },
+    };
+  };
+
+  const retireUrls = (id: string) => {
+    const urls = urlCache.current.get(id);
+    if (!urls) return;
+    retiredUrls.current.push(urls.originalUrl, urls.colorizedUrl);
+    if (urls.unadjustedUrl) retiredUrls.current.push(urls.unadjustedUrl);
+    urlCache.current.delete(id);
+  };
+
+  const refresh = useCallback(async () => {
+    try {
+      const entries = await listHistoryEntries();
+      const liveIds = new Set(entries.map(entry => entry.id));
+      urlCache.current.forEach((_, id) => {
+        if (!liveIds.has(id)) retireUrls(id);
+      });
+      setItems(entries.map(toItem));
+    } catch (e) {
+      console.error(e);
+      setError('history.unavailable');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const cache = urlCache.current;
+    const retired = retiredUrls.current;
+    return () => {
+      cache.forEach(urls => {
+        URL.revokeObjectURL(urls.originalUrl);
+        URL.revokeObjectURL(urls.colorizedUrl);
+        if (urls.unadjustedUrl) URL.revokeObjectURL(urls.unadjustedUrl);
+      });
+      cache.clear();
+      retired.splice(0).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [refresh]);
+
+  // The new items are on screen now, so nothing renders the retired URLs anymore.
+  useEffect(() => {
+    retiredUrls.current.splice(0).forEach(url => URL.revokeObjectURL(url));
+  }, [items]);
+
+  const add = useCallback(async (result: ColorizationResult) => {
+    setError(null);
+    try {
+      await addHistoryEntry(result, quotaBytes);
+      // The entry may have replaced an earlier version of the same result; list its new blobs.
+      retireUrls(result.id);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e : 'history.saveFailed');
+    }
+    await refresh();
+  }, [quotaBytes, refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteHistoryEntry(id);
+    await refresh();
+  }, [refresh]);
+
+  const usedBytes = items.reduce((sum, item) => sum + item.sizeBytes, 0);
+
+  const message = error === null ? null : typeof error === 'string' ? t(error) : describeError(error, t);
+
+  return { items, usedBytes, quotaBytes, error: message, add, remove };
+}
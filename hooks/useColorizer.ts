@@ -0,0 +1,523 @@
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import {
+  ColorizerClient,
+  DEFAULT_RETRIES,
+  delay,
+  getClientCapabilities,
+  isAbortError,
+  StageTimings,
+  supportsHints,
+  useColorizerClient,
+} from '../services/colorizerClient';
+import type { ColorHints } from '../services/hints';
+import { colorizeBatch, createBatchItems, DEFAULT_BATCH_CONCURRENCY } from '../services/batchQueue';
+import { isAnimatedImage } from '../services/animation';
+import { PIPELINE_STAGES, PipelineStage, processAnimation, processImage, resolveStageDurations } from '../services/pipeline';
+import { PreprocessOptions, desaturateImage, prepareImage } from '../services/preprocess';
+import { CompareEndpoint, compareBackends } from '../services/compare';
+import { createSimulatedColorizerClient } from '../services/simulatedColorizer';
+import { DEFAULT_CACHE_QUOTA_BYTES, computeCacheKey, getCachedResult, putCachedResult, resultFromCache } from '../services/resultCache';
+import type { BatchItem, ColorizationResult, ComparisonEntry, ProgressReport, Status } from '../types';
+
+export type HintSupport = 'checking' | 'supported' | 'unsupported';
+
+/** What to do with an input that already has color. */
+export type ColorInputChoice = 'desaturate' | 'keep';
+
+export interface UseColorizerOptions {
+  /** Overrides the client provided through `ColorizerClientContext`. */
+  client?: ColorizerClient;
+  /** Run the offline pseudo-colorization instead of calling the backend. */
+  simulate?: boolean;
+  /** The stages progress is reported against, in order; keys match the backend's stage events. Empty means the built-in ones. */
+  stages?: PipelineStage[];
+  /** Seconds per entry of `stages`, used while the backend doesn't stream progress. */
+  stageDurations?: number[];
+  /**
+   * Replace `stageDurations` with the per-stage timings the backend reported
+   * for the previous run, so the animation follows the real pace.
+   */
+  useServerTimings?: boolean;
+  /** Extra attempts for network errors and 5xx responses. */
+  retries?: number;
+  /** Rebuild stills at the original's resolution from its lightness and the predicted chroma. */
+  fullResolution?: boolean;
+  /** Maximum number of batch items (or animation frames) sent to the backend at once. */
+  concurrency?: number;
+  /** Blend chroma between consecutive frames of animated inputs to reduce flicker. */
+  smoothAnimations?: boolean;
+  /**
+   * Limits and checks applied before upload. With `detectColor` (the default)
+   * color inputs pause in the 'confirming' status until `confirmColorInput`.
+   */
+  preprocess?: PreprocessOptions;
+  /**
+   * Keep single-image results in IndexedDB, keyed by the input's content, the
+   * backend and the options, and answer repeated inputs from there.
+   */
+  cache?: boolean;
+  /** Size cap of the result cache; least recently used results are evicted first. */
+  cacheQuotaBytes?: number;
+  /** Every progress report, e.g. to drive a custom animation. */
+  onProgress?: (report: ProgressReport) => void;
+  onResult?: (result: ColorizationResult) => void;
+  /** Fires once after every item of a batch has finished or failed. */
+  onBatchComplete?: (items: BatchItem[]) => void;
+  /** Fires whenever a colorization fails (not when it is cancelled). */
+  onError?: (error: Error, file: File) => void;
+  /** Turns a failure into the text of `error` and of failed batch/comparison entries, e.g. to translate it. */
+  formatError?: (error: Error) => string;
+}
+
+export interface Colorizer {
+  status: Status;
+  stages: PipelineStage[];
+  /** Index into `stages`; -1 before the first stage starts. */
+  stageIndex: number;
+  /** Expected seconds per stage, including what the backend last reported. */
+  stageDurations: number[];
+  /** 0-100. */
+  progress: number;
+  /** Share of the image sent to the backend (0-1); null while it is still being prepared. */
+  uploadProgress: number | null;
+  /** Frame in flight while an animation is colorized. */
+  frame: ProgressReport['frame'] | null;
+  /** Current retry attempt after a transient backend failure, 0 otherwise. */
+  retryAttempt: number;
+  /** Retries allowed per run, with the default applied. */
+  retries: number;
+  fileName: string | null;
+  result: ColorizationResult | null;
+  error: string | null;
+  batchItems: BatchItem[];
+  isBatchRunning: boolean;
+  /** One entry per endpoint of the current comparison. */
+  comparison: ComparisonEntry[];
+  isComparing: boolean;
+  /** Color input waiting for `confirmColorInput` in the 'confirming' status. */
+  colorInput: File | null;
+  /** File waiting in the hint step, and whether the backend will use the hints. */
+  hintFile: File | null;
+  hintSupport: HintSupport;
+  /** The client requests go to (the simulated one when `simulate` is set). */
+  client: ColorizerClient;
+  /** `replaces`: id of a result this run supersedes; the new result takes it over. */
+  start: (file: File, hints?: ColorHints | null, options?: { bypassCache?: boolean; replaces?: string }) => Promise<void>;
+  startBatch: (files: File[]) => Promise<void>;
+  /** Sends `file` to every endpoint; nothing is reported through `onResult` until `pickWinner`. */
+  startComparison: (file: File, endpoints: CompareEndpoint[]) => Promise<void>;
+  /** Makes the finished comparison entry `id` the result, stops the other backends and reports it through `onResult`. */
+  pickWinner: (id: string) => void;
+  /** Enters the hint step for `file`; `submitHints` then starts the run. */
+  beginHints: (file: File) => void;
+  submitHints: (hints: ColorHints | null) => void;
+  confirmColorInput: (choice: ColorInputChoice) => void;
+  /** Restarts the last single-file run with the same hints. */
+  retry: () => void;
+  /** Colorizes the last single file again, ignoring (and then replacing) its cached result; the new result keeps the old one's id. */
+  forceRerun: () => void;
+  cancel: () => void;
+  reset: () => void;
+  /** Replaces the finished result, e.g. after color adjustments, and reports it through `onResult`. */
+  updateResult: (result: ColorizationResult) => void;
+}
+
+/**
+ * Headless colorization state machine: idle → uploading (preparing, then
+ * sending the image) → processing → complete / error / cancelled, plus the
+ * hint step, the color-input question and batches. Bring your
+ * own UI; `ImageColorizer` is one consumer.
+ */
+export function useColorizer(options: UseColorizerOptions = {}): Colorizer {
+  const {
+    client: clientOverride,
+    simulate = false,
+    stages: stagesOption = PIPELINE_STAGES,
+    stageDurations: configuredDurations,
+    useServerTimings = true,
+    retries = DEFAULT_RETRIES,
+    fullResolution = false,
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    smoothAnimations = true,
+    preprocess,
+    cache = true,
+    cacheQuotaBytes = DEFAULT_CACHE_QUOTA_BYTES,
+  } = options;
+
+  const stages = stagesOption.length > 0 ? stagesOption : PIPELINE_STAGES;
+  const configuredClient = useColorizerClient(clientOverride);
+  const client = useMemo(
+    () => simulate
+      ? createSimulatedColorizerClient({
+          stages: stages.map(stage => stage.key),
+          stageDurationsMs: resolveStageDurations(stages, configuredDurations).map(seconds => seconds * 1000),
+        })
+      : configuredClient,
+    [simulate, stages, configuredDurations, configuredClient]
+  );
+
+  // Timings belong to one backend; start over when the client changes.
+  const [serverTimings, setServerTimings] = useState<StageTimings | null>(null);
+  useEffect(() => setServerTimings(null), [client]);
+  const stageDurations = useMemo(
+    () => resolveStageDurations(stages, configuredDurations, useServerTimings ? serverTimings : null),
+    [stages, configuredDurations, useServerTimings, serverTimings]
+  );
+
+  // Callbacks change identity on every render; read the latest ones at call time.
+  const callbacks = useRef(options);
+  callbacks.current = options;
+  const formatError = useCallback((e: Error) => callbacks.current.formatError?.(e) ?? e.message, []);
+
+  const [status, setStatus] = useState<Status>('idle');
+  const [progress, setProgress] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [colorInput, setColorInput] = useState<File | null>(null);
+  const [stageIndex, setStageIndex] = useState(-1);
+  const [frame, setFrame] = useState<ProgressReport['frame'] | null>(null);
+  const [retryAttempt, setRetryAttempt] = useState(0);
+  const [result, setResult] = useState<ColorizationResult | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [comparison, setComparison] = useState<ComparisonEntry[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [hintFile, setHintFile] = useState<File | null>(null);
+  const [hintSupport, setHintSupport] = useState<HintSupport>('checking');
+  const abortRef = useRef<AbortController | null>(null);
+  const lastFileRef = useRef<File | null>(null);
+  const lastHintsRef = useRef<ColorHints | null>(null);
+  // Set while the last run was a comparison, so `retry` repeats it instead of a single run.
+  const lastEndpointsRef = useRef<CompareEndpoint[] | null>(null);
+  const colorChoiceRef = useRef<((choice: ColorInputChoice) => void) | null>(null);
+
+  const askColorChoice = (file: File, signal: AbortSignal) => new Promise<ColorInputChoice>((resolve, reject) => {
+    colorChoiceRef.current = resolve;
+    setColorInput(file);
+    setStatus('confirming');
+    signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+  });
+
+  const start = useCallback(async (selectedFile: File, hints: ColorHints | null = null, { bypassCache = false, replaces }: { bypassCache?: boolean; replaces?: string } = {}) => {
+    if (!selectedFile) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    const { signal } = controller;
+    abortRef.current = controller;
+    lastFileRef.current = selectedFile;
+    lastHintsRef.current = hints;
+    lastEndpointsRef.current = null;
+
+    setError(null);
+    setRetryAttempt(0);
+    setFrame(null);
+    setProgress(0);
+    setUploadProgress(null);
+    setStageIndex(-1);
+    setStatus('uploading');
+    setFileName(selectedFile.name);
+
+    const onProgress = (report: ProgressReport) => {
+      setStatus('processing');
+      setProgress(report.percent);
+      setStageIndex(report.stageIndex);
+      setFrame(report.frame ?? null);
+      callbacks.current.onProgress?.(report);
+    };
+
+    try {
+      const animated = await isAnimatedImage(selectedFile);
+      signal.throwIfAborted();
+      let prepared = await prepareImage(selectedFile, { ...preprocess, animated, signal });
+      if (prepared.hasColor) {
+        const choice = await askColorChoice(prepared.file, signal);
+        setStatus('uploading');
+        if (choice === 'desaturate') {
+          prepared = await prepareImage(await desaturateImage(prepared.file, signal), { ...preprocess, detectColor: false, signal });
+        }
+      }
+
+      let cacheKey: string | null = null;
+      if (cache) {
+        try {
+          const { model } = await getClientCapabilities(client, signal);
+          cacheKey = await computeCacheKey(prepared.file, { id: client.id, model }, {
+            animated,
+            hints: hints ?? undefined,
+            fullResolution: animated ? undefined : fullResolution,
+            smoothAnimations: animated ? smoothAnimations : undefined,
+            uploadMaxSide: animated ? undefined : preprocess?.uploadMaxSide,
+          });
+          const cached = bypassCache ? null : await getCachedResult(cacheKey);
+          if (cached) {
+            const cachedResult = resultFromCache(prepared.file, cached);
+            setResult(cachedResult);
+            setStatus('complete');
+            callbacks.current.onResult?.(cachedResult);
+            return;
+          }
+        } catch (e) {
+          signal.throwIfAborted();
+          // No SubtleCrypto (plain http:// pages) or no IndexedDB (some private modes): run uncached.
+          console.warn('The result cache is unavailable.', e);
+          cacheKey = null;
+        }
+      }
+
+      const requestOptions = {
+        signal,
+        retries,
+        hints: hints ?? undefined,
+        onRetry: (attempt: number) => setRetryAttempt(attempt),
+      };
+      let colorizationResult: ColorizationResult;
+      if (animated) {
+        // Frames are uploaded one by one while processing; there is no single upload to follow.
+        setStatus('processing');
+        colorizationResult = await processAnimation(prepared.file, onProgress, stages, stageDurations, client, { ...requestOptions, concurrency, smoothing: smoothAnimations });
+      } else {
+        setUploadProgress(0);
+        colorizationResult = await processImage(prepared.file, onProgress, stages, stageDurations, client, {
+          ...requestOptions,
+          fullResolution,
+          upload: prepared.upload,
+          onTiming: setServerTimings,
+          onUploadProgress: fraction => {
+            setUploadProgress(fraction);
+            if (fraction >= 1) setStatus('processing');
+          },
+        });
+      }
+
+      // Same input and settings, same history entry: a re-run replaces it.
+      const id = replaces ?? cacheKey;
+      if (id) colorizationResult = { ...colorizationResult, id };
+
+      await delay(300, signal);
+      setResult(colorizationResult);
+      setStatus('complete');
+      callbacks.current.onResult?.(colorizationResult);
+      if (cacheKey) {
+        putCachedResult(cacheKey, colorizationResult, cacheQuotaBytes).catch(e => console.warn('Could not cache the result.', e));
+      }
+    } catch (e) {
+      if (isAbortError(e)) {
+        // A newer selection aborts the previous one; only an explicit cancel shows the cancelled state.
+        if (abortRef.current === controller) setStatus('cancelled');
+        return;
+      }
+      const failure = e instanceof Error ? e : new Error('An error occurred during colorization');
+      console.error(failure);
+      setError(formatError(failure));
+      setStatus('error');
+      callbacks.current.onError?.(failure, selectedFile);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [retries, fullResolution, concurrency, smoothAnimations, preprocess, cache, cacheQuotaBytes, stages, stageDurations, client]);
+
+  const startBatch = useCallback(async (files: File[]) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const items = createBatchItems(files);
+    setBatchItems(items);
+    setIsBatchRunning(true);
+    setStatus('batch');
+
+    // Latest copy of every item, for failures that end the whole batch.
+    let current = items;
+    try {
+      const finished = await colorizeBatch(items, {
+        client,
+        signal: controller.signal,
+        concurrency,
+        fullResolution,
+        preprocess,
+        formatError,
+        onUpdate: item => {
+          current = current.map(existing => existing.id === item.id ? item : existing);
+          setBatchItems(current);
+          if (item.status === 'done' && item.result) callbacks.current.onResult?.(item.result);
+        },
+      });
+      setIsBatchRunning(false);
+      callbacks.current.onBatchComplete?.(finished);
+    } catch (e) {
+      // Unmount and reset clear abortRef first; after an explicit cancel the batch stays on screen.
+      if (abortRef.current !== controller) return;
+      if (isAbortError(e)) {
+        setBatchItems(current.map(item => item.status === 'processing' ? { ...item, status: 'queued', stage: undefined } : item));
+        setIsBatchRunning(false);
+        return;
+      }
+      // Item failures are recorded by the queue; this one stopped the batch, so every unfinished item failed with it.
+      const failure = e instanceof Error ? e : new Error('An error occurred during the batch');
+      console.error(failure);
+      const message = formatError(failure);
+      const unfinished = current.filter(item => item.status === 'queued' || item.status === 'processing');
+      setBatchItems(current.map(item => unfinished.includes(item) ? { ...item, status: 'failed', stage: undefined, error: message } : item));
+      setError(message);
+      setIsBatchRunning(false);
+      unfinished.forEach(item => callbacks.current.onError?.(failure, item.file));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [client, concurrency, fullResolution, preprocess]);
+
+  const startComparison = useCallback(async (file: File, endpoints: CompareEndpoint[]) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    lastFileRef.current = file;
+    lastEndpointsRef.current = endpoints;
+
+    setError(null);
+    setResult(null);
+    setFileName(file.name);
+    setComparison([]);
+    setIsComparing(true);
+    setStatus('comparing');
+
+    try {
+      await compareBackends(file, endpoints, {
+        signal: controller.signal,
+        fullResolution,
+        preprocess,
+        formatError,
+        onUpdate: entry => setComparison(prev => prev.some(existing => existing.id === entry.id)
+          ? prev.map(existing => existing.id === entry.id ? entry : existing)
+          : [...prev, entry]),
+      });
+    } catch (e) {
+      if (isAbortError(e)) {
+        if (abortRef.current === controller) setStatus('cancelled');
+        return;
+      }
+      const failure = e instanceof Error ? e : new Error('An error occurred during the comparison');
+      console.error(failure);
+      setError(formatError(failure));
+      setStatus('error');
+      callbacks.current.onError?.(failure, file);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsComparing(false);
+    }
+  }, [fullResolution, preprocess]);
+
+  const pickWinner = (id: string) => {
+    const winner = comparison.find(entry => entry.id === id)?.result;
+    if (!winner) return;
+    // The choice is made; stop the backends that are still running without showing a cancel.
+    const inFlight = abortRef.current;
+    abortRef.current = null;
+    inFlight?.abort();
+    setResult(winner);
+    setStatus('complete');
+    callbacks.current.onResult?.(winner);
+  };
+
+  const beginHints = useCallback((file: File) => {
+    setHintFile(file);
+    setFileName(file.name);
+    setHintSupport('checking');
+    setStatus('hinting');
+    getClientCapabilities(client)
+      .then(capabilities => setHintSupport(supportsHints(capabilities) ? 'supported' : 'unsupported'))
+      .catch(() => setHintSupport('unsupported'));
+  }, [client]);
+
+  const submitHints = (hints: ColorHints | null) => {
+    const file = hintFile;
+    setHintFile(null);
+    if (file) start(file, hintSupport === 'supported' ? hints : null);
+  };
+
+  const confirmColorInput = (choice: ColorInputChoice) => {
+    const resolve = colorChoiceRef.current;
+    colorChoiceRef.current = null;
+    setColorInput(null);
+    resolve?.(choice);
+  };
+
+  const retry = () => {
+    if (!lastFileRef.current) return;
+    if (lastEndpointsRef.current) startComparison(lastFileRef.current, lastEndpointsRef.current);
+    else start(lastFileRef.current, lastHintsRef.current);
+  };
+
+  const forceRerun = () => {
+    if (lastFileRef.current) start(lastFileRef.current, lastHintsRef.current, { bypassCache: true, replaces: result?.id });
+  };
+
+  const cancel = useCallback(() => abortRef.current?.abort(), []);
+
+  const reset = useCallback(() => {
+    // Drop any in-flight run without surfacing it as a user cancel.
+    const inFlight = abortRef.current;
+    abortRef.current = null;
+    inFlight?.abort();
+    setStatus('idle');
+    setError(null);
+    setProgress(0);
+    setStageIndex(-1);
+    setFrame(null);
+    setUploadProgress(null);
+    setResult(null);
+    setFileName(null);
+    setBatchItems([]);
+    setIsBatchRunning(false);
+    setComparison([]);
+    setHintFile(null);
+    setColorInput(null);
+  }, []);
+
+  const updateResult = (updated: ColorizationResult) => {
+    setResult(updated);
+    callbacks.current.onResult?.(updated);
+  };
+
+  useEffect(() => () => {
+    const inFlight = abortRef.current;
+    abortRef.current = null;
+    inFlight?.abort();
+  }, []);
+
+  return {
+    status,
+    stages,
+    stageIndex,
+    stageDurations,
+    progress,
+    uploadProgress,
+    frame,
+    retryAttempt,
+    retries,
+    fileName,
+    result,
+    error,
+    batchItems,
+    isBatchRunning,
+    comparison,
+    isComparing,
+    colorInput,
+    hintFile,
+    hintSupport,
+    client,
+    start,
+    startBatch,
+    startComparison,
+    pickWinner,
+    beginHints,
+    submitHints,
+    confirmColorInput,
+    retry,
+    forceRerun,
+    cancel,
+    reset,
+    updateResult,
+  };
+}
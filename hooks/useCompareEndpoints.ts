@@ -0,0 +1,50 @@
+import { useState, useCallback } from 'react';
+import { envColorizerConfig } from '../services/colorizerClient';
+import type { CompareEndpoint } from '../services/compare';
+import type { Translator } from '../utils/i18n';
+
+const STORAGE_KEY = 'bw-colorizer:compare-endpoints';
+
+const defaultEndpoints = (t: Translator): CompareEndpoint[] => [
+  { name: t('compare.current'), url: envColorizerConfig.baseUrl },
+  { name: '', url: '' },
+];
+
+function readStored(): CompareEndpoint[] | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!Array.isArray(stored)) return null;
+    return stored
+      .filter(entry => typeof entry?.name === 'string' && typeof entry?.url === 'string')
+      .map(entry => ({ name: entry.name, url: entry.url }));
+  } catch {
+    // Unreadable or disabled storage; start from the defaults.
+    return null;
+  }
+}
+
+/**
+ * The endpoints of compare mode, editable by the user and persisted in
+ * localStorage. Endpoints that carry their own client come from the host and
+ * are never stored, so they are kept in front of whatever the user saved.
+ * `t` names the default endpoint.
+ */
+export function useCompareEndpoints(t: Translator, initial?: CompareEndpoint[]) {
+  const [endpoints, setEndpointsState] = useState<CompareEndpoint[]>(() => {
+    const stored = readStored();
+    const fromHost = initial ?? defaultEndpoints(t);
+    return stored ? [...fromHost.filter(endpoint => endpoint.client), ...stored] : fromHost;
+  });
+
+  const setEndpoints = useCallback((next: CompareEndpoint[]) => {
+    setEndpointsState(next);
+    try {
+      const editable = next.filter(endpoint => !endpoint.client).map(({ name, url = '' }) => ({ name, url }));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(editable));
+    } catch {
+      // Not persisted; the list still applies until reload.
+    }
+  }, []);
+
+  return { endpoints, setEndpoints };
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ColorizerTheme, ThemeName, THEMES, isThemeName } from '../utils/theme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+/** Tracks the OS/browser color scheme; 'dark' where the media query isn't available. */
+export function usePrefersColorScheme(): 'dark' | 'light' {
+  const [scheme, setScheme] = useState<'dark' | 'light'>(() =>
+    typeof matchMedia === 'undefined' || matchMedia(DARK_QUERY).matches ? 'dark' : 'light'
+  );
+
+  useEffect(() => {
+    if (typeof matchMedia === 'undefined') return;
+    const query = matchMedia(DARK_QUERY);
+    const onChange = () => setScheme(query.matches ? 'dark' : 'light');
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  return scheme;
+}
+
+/** The built-in theme matching the system color scheme. */
+export function useSystemTheme(): ColorizerTheme {
+  return usePrefersColorScheme() === 'dark' ? THEMES.dark : THEMES.light;
+}
+
+export type ThemePreference = ThemeName | 'system';
+
+const STORAGE_KEY = 'bw-colorizer:theme';
+
+function readPreference(): ThemePreference {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isThemeName(stored) ? stored : 'system';
+  } catch {
+    // Storage can be disabled (privacy modes, sandboxed iframes).
+    return 'system';
+  }
+}
+
+/**
+ * The user's theme choice, persisted in localStorage. 'system' (the default)
+ * follows `prefers-color-scheme`.
+ */
+export function useThemePreference() {
+  const [preference, setPreferenceState] = useState<ThemePreference>(readPreference);
+  const systemTheme = useSystemTheme();
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    setPreferenceState(next);
+    try {
+      if (next === 'system') localStorage.removeItem(STORAGE_KEY);
+      else localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Not persisted; the choice still applies until reload.
+    }
+  }, []);
+
+  const theme = preference === 'system' ? systemTheme : THEMES[preference];
+  return { preference, setPreference, theme };
+}
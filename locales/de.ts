@@ -0,0 +1,264 @@
+import type { MessageCatalog } from '../utils/i18n';
+
+export const de: MessageCatalog = {
+  'app.title': 'Bildkolorierung',
+  'app.tagline': 'Lade ein Schwarzweißbild hoch, um seine Farben wiederherzustellen. Unsere KI-Pipeline nutzt selbstüberwachtes Lernen, um die Vergangenheit neu zu zeigen.',
+  'app.matchSystem': 'Wie System',
+  'app.matchSystemHint': 'Dem Farbschema des Systems folgen',
+  'app.theme': 'Design',
+  'app.theme.dark': 'Dunkel',
+  'app.theme.navy': 'Marine',
+  'app.theme.light': 'Hell',
+  'app.close': 'Schließen',
+
+  'stage.preprocessing': 'Vorverarbeitung des Bildes',
+  'stage.lab': 'Umwandlung in den Lab-Farbraum',
+  'stage.encoder': 'Encoder-Analyse',
+  'stage.decoder': 'Decoder-Rekonstruktion',
+  'stage.rgb': 'RGB-Ausgabe',
+
+  'common.cancel': 'Abbrechen',
+  'common.retry': 'Erneut versuchen',
+  'common.chooseAnother': 'Andere Datei wählen',
+  'common.original': 'Original',
+  'common.colorized': 'Koloriert',
+  'common.originalAlt': 'Original (Schwarzweiß)',
+  'common.zoomIn': 'Vergrößern (+)',
+  'common.zoomOut': 'Verkleinern (-)',
+  'common.fit': 'Einpassen',
+  'common.fitTitle': 'In Ansicht einpassen (0)',
+  'common.zoomControls': 'Zoomsteuerung',
+
+  'dropzone.label': 'Ablagebereich für Bilder',
+  'dropzone.title': 'Schwarzweißbild hierher ziehen',
+  'dropzone.or': 'oder',
+  'dropzone.browse': 'Dateien durchsuchen',
+  'dropzone.hint': 'Mehrere Dateien wählen, um sie als Stapel zu kolorieren, oder ein Bild mit Strg+V einfügen',
+  'dropzone.url': 'Bild-URL',
+  'dropzone.import': 'Importieren',
+  'dropzone.importing': 'Wird importiert...',
+  'dropzone.camera': 'Kamera verwenden',
+  'dropzone.hints': 'Vor dem Kolorieren Farbhinweise setzen',
+  'dropzone.compare': 'Backends nebeneinander vergleichen',
+  'dropzone.notImage': '„{name}“ ist kein Bild.',
+  'dropzone.notImageType': '„{name}“ ist kein Bild ({type}).',
+  'dropzone.importFailed': '{url} konnte nicht importiert werden.',
+
+  'colorInput.label': 'Farbige Eingabe',
+  'colorInput.title': 'Dieses Bild ist bereits farbig',
+  'colorInput.body': 'Das Modell liest nur die Helligkeit des Bildes. Eine vorherige Umwandlung in Graustufen zeigt genau, womit es arbeitet; beim Beibehalten werden die Farben unverändert hochgeladen.',
+  'colorInput.preview': 'Vorschau von {name}',
+  'colorInput.keep': 'Farben beibehalten',
+  'colorInput.desaturate': 'In Graustufen umwandeln',
+
+  'upload.preparing': 'Bild wird vorbereitet...',
+  'upload.uploading': 'Bild wird hochgeladen...',
+  'upload.progress': 'Upload-Fortschritt',
+
+  'processing.initializing': 'Pipeline wird gestartet...',
+  'processing.frame': 'Frame {index} von {total}',
+  'processing.retrying': 'Backend nicht erreichbar, neuer Versuch ({attempt}/{retries})...',
+  'processing.colorizing': 'Kolorierung',
+  'processing.progress': 'Analysefortschritt',
+  'processing.stages': 'Pipeline-Stufen',
+  'processing.stageDone': 'Fertig',
+  'processing.stageCurrent': 'Läuft',
+  'processing.stagePending': 'Ausstehend',
+
+  'announce.preparing': '{name} wird vorbereitet',
+  'announce.uploading': '{name} wird hochgeladen',
+  'announce.stage': 'Stufe {index} von {total}: {name}',
+  'announce.starting': 'Kolorierung startet',
+  'announce.complete': 'Kolorierung von {name} abgeschlossen',
+  'announce.completeCached': 'Kolorierung von {name} abgeschlossen, aus dem Cache geladen',
+  'announce.cancelled': 'Kolorierung abgebrochen',
+  'announce.failed': 'Kolorierung fehlgeschlagen',
+  'announce.failedBecause': 'Kolorierung fehlgeschlagen: {reason}',
+
+  'failure.cancelled': 'Kolorierung abgebrochen',
+  'failure.failed': 'Kolorierung fehlgeschlagen',
+
+  'batch.label': 'Stapelkolorierung',
+  'batch.running': { one: '{count} Bild wird koloriert', other: '{count} Bilder werden koloriert' },
+  'batch.cancelled': 'Stapel abgebrochen',
+  'batch.complete': 'Stapel abgeschlossen',
+  'batch.finished': { one: '{finished} von {count} Bild fertig', other: '{finished} von {count} Bildern fertig' },
+  'batch.failed': '{count} fehlgeschlagen',
+  'batch.status.queued': 'Wartet',
+  'batch.status.processing': 'Läuft',
+  'batch.status.done': 'Fertig',
+  'batch.status.failed': 'Fehler',
+  'batch.download': '{name} herunterladen',
+  'batch.colorizedAlt': '{name}, koloriert',
+  'batch.check': 'Prüfen',
+  'batch.checkLowChroma': 'Ergebnis ist fast grau',
+  'batch.checkLuminance': 'Helligkeit weicht vom Original ab',
+  'batch.more': 'Weitere Bilder kolorieren',
+
+  'camera.label': 'Kameraaufnahme',
+  'camera.title': 'Foto aufnehmen',
+  'camera.preview': 'Kameravorschau',
+  'camera.device': 'Gerät',
+  'camera.default': 'Standard',
+  'camera.numbered': 'Kamera {index}',
+  'camera.capture': 'Aufnehmen',
+  'camera.unsupported': 'Dieser Browser kann nicht auf Kameras zugreifen (eine sichere https://-Seite ist erforderlich).',
+  'camera.denied': 'Der Kamerazugriff wurde verweigert. Erlaube ihn in den Website-Einstellungen des Browsers und versuche es erneut.',
+  'camera.notFound': 'Es wurde keine Kamera und kein Scanner gefunden.',
+  'camera.busy': 'Die Kamera wird von einer anderen Anwendung verwendet.',
+  'camera.failed': 'Die Kamera konnte nicht gestartet werden.',
+
+  'hints.label': 'Farbhinweise',
+  'hints.title': 'Farbhinweise setzen',
+  'hints.body': 'Male oder setze Punkte dort, wo du die ursprüngliche Farbe kennst, z. B. eine blaue Uniform oder ein rotes Auto.',
+  'hints.unsupported': 'Das aktuelle Backend nimmt noch keine Farbhinweise an. Sie werden nicht gesendet und das Ergebnis ist vollautomatisch.',
+  'hints.tools': 'Hinweiswerkzeuge',
+  'hints.tool': 'Werkzeug',
+  'hints.brush': 'Pinsel',
+  'hints.point': 'Punkt',
+  'hints.eraser': 'Radierer',
+  'hints.color': 'Farbe',
+  'hints.size': 'Größe',
+  'hints.clear': 'Leeren',
+  'hints.imageAlt': '{name} in Graustufen',
+  'hints.canvas': 'Zeichenfläche für Hinweise',
+  'hints.skip': 'Hinweise überspringen',
+  'hints.colorize': 'Kolorieren',
+
+  'result.label': 'Kolorierungsergebnis',
+  'result.title': 'Kolorierung abgeschlossen',
+  'result.reset': 'Weiteres Bild kolorieren',
+  'result.frames': { one: '{count} Frame, {seconds} s {format}', other: '{count} Frames, {seconds} s {format}' },
+  'result.fullResolution': 'Neuaufbau in voller Auflösung',
+  'result.serverOutput': 'Serverausgabe',
+  'result.fromCache': 'Aus dem Cache',
+  'result.fromCacheTitle': 'Dieses Bild wurde schon einmal mit demselben Backend und denselben Einstellungen koloriert',
+  'result.rerun': 'Neu berechnen',
+  'result.download': 'Herunterladen',
+  'result.downloadTitle': 'Bild herunterladen',
+  'result.export': 'Exportieren...',
+  'result.adjust': 'Farben anpassen',
+  'result.diagnostics': 'Diagnose',
+  'result.hasWarnings': '(mit Warnungen)',
+  'result.originalPhotoAlt': 'Schwarzweißfoto {name}',
+  'result.originalAnimationAlt': 'Schwarzweißanimation {name}',
+  'result.colorizedPhotoAlt': 'Koloriertes Foto {name}, {width} × {height} Pixel',
+  'result.colorizedAnimationAlt': 'Kolorierte Animation {name}, {width} × {height} Pixel',
+  'result.shortcuts': 'Tastenkürzel:',
+  'result.shortcutDownload': 'Herunterladen',
+  'result.shortcutExport': 'Exportieren',
+  'result.shortcutAdjust': 'Anpassen',
+  'result.shortcutDiagnostics': 'Diagnose',
+
+  'viewer.controls': 'Vergleichssteuerung',
+  'viewer.mode': 'Vergleichsmodus',
+  'viewer.split': 'Geteilt',
+  'viewer.flicker': 'Wechseln',
+  'viewer.sideBySide': 'Nebeneinander',
+  'viewer.toggleTitle': 'Vorher/Nachher umschalten (T)',
+  'viewer.showingOriginal': 'Zeigt Original',
+  'viewer.showingColorized': 'Zeigt Kolorierung',
+  'viewer.autoFlicker': 'Automatisch wechseln',
+  'viewer.oneToOneTitle': 'Ein Bildpixel pro Bildschirmpixel (1)',
+  'viewer.instructions': 'Vorher-Nachher-Vergleich. Plus und Minus zoomen, Pfeiltasten verschieben, 1 zeigt Pixel, 0 passt ein.',
+  'viewer.splitPosition': 'Position der Trennlinie',
+  'viewer.colorizedAlt': 'Koloriertes Ergebnis',
+
+  'adjust.label': 'Farbanpassungen',
+  'adjust.preview': 'Vorschau der Anpassung',
+  'adjust.chroma': 'Sättigung',
+  'adjust.hue': 'Farbtondrehung',
+  'adjust.warmth': 'Wärme',
+  'adjust.aOffset': 'Grün ↔ Magenta (a)',
+  'adjust.bOffset': 'Blau ↔ Gelb (b)',
+  'adjust.strength': 'Stärke',
+  'adjust.undo': 'Rückgängig',
+  'adjust.undoTitle': 'Rückgängig (Strg+Z)',
+  'adjust.redo': 'Wiederholen',
+  'adjust.redoTitle': 'Wiederholen (Strg+Umschalt+Z)',
+  'adjust.reset': 'Zurücksetzen',
+  'adjust.apply': 'Übernehmen',
+  'adjust.applying': 'Wird übernommen...',
+  'adjust.loadFailed': 'Die Bilder konnten nicht zum Bearbeiten geladen werden.',
+  'adjust.applyFailed': 'Die Anpassungen konnten nicht übernommen werden.',
+
+  'export.title': 'Bild exportieren',
+  'export.format': 'Format',
+  'export.quality': 'Qualität',
+  'export.layout': 'Anordnung',
+  'export.layoutColorized': 'Nur koloriert',
+  'export.layoutSideBySide': 'Nebeneinander',
+  'export.layoutStacked': 'Übereinander',
+  'export.caption': 'Bildunterschrift (optional)',
+  'export.captionPlaceholder': 'z. B. Familienporträt, um 1920',
+  'export.provenance': 'Die Datei wird als KI-koloriert gekennzeichnet und enthält Quelldatei ({name}), Datum und Backend ({backend}).',
+  'export.failed': 'Export fehlgeschlagen.',
+  'export.export': 'Exportieren',
+  'export.exporting': 'Wird exportiert...',
+
+  'diagnostics.label': 'Kolorierungsdiagnose',
+  'diagnostics.lowChroma': 'Das Modell hat kaum Farbe vorhergesagt; das Ergebnis ist nahezu grau.',
+  'diagnostics.luminanceShift': 'Die Helligkeit des Ergebnisses weicht vom Original ab. Das Modell lässt L unverändert, das deutet also auf die Lab-Umwandlung hin (z. B. lab_denormalize).',
+  'diagnostics.analyzing': 'Wird analysiert...',
+  'diagnostics.failed': 'Das Ergebnis konnte nicht analysiert werden.',
+  'diagnostics.colorfulness': 'Farbigkeit',
+  'diagnostics.meanChroma': 'Mittlere Buntheit',
+  'diagnostics.meanShift': 'Mittlere L-Verschiebung',
+  'diagnostics.meanError': 'Mittleres |ΔL|',
+  'diagnostics.heatmap': 'Buntheits-Heatmap',
+  'diagnostics.heatmapAlt': '{name}, koloriert, mit Buntheits-Heatmap',
+  'diagnostics.gray': 'grau',
+  'diagnostics.vivid': 'kräftig',
+  'diagnostics.histogram': 'Histogramm des {channel}-Kanals',
+
+  'compare.backends': 'Zu vergleichende Backends',
+  'compare.name': 'Name',
+  'compare.nameLabel': 'Name von Backend {index}',
+  'compare.urlLabel': 'URL von Backend {index}',
+  'compare.remove': 'Backend {index} entfernen',
+  'compare.add': 'Backend hinzufügen',
+  'compare.needMore': 'Gib mindestens {count} benannte Backends mit http(s)-URLs ein.',
+  'compare.label': 'Backend-Vergleich',
+  'compare.running': 'Backends werden verglichen',
+  'compare.pick': 'Bestes Ergebnis wählen',
+  'compare.finished': { one: '{finished} von {count} Backend fertig', other: '{finished} von {count} Backends fertig' },
+  'compare.instructions': 'Ergebnisse aller Backends. Plus und Minus zoomen, 0 passt ein.',
+  'compare.outputAlt': 'Ergebnis von {name}',
+  'compare.colorizing': 'Wird koloriert...',
+  'compare.queued': 'Wartet',
+  'compare.fastest': 'Am schnellsten',
+  'compare.pickThis': 'Dieses wählen',
+  'compare.current': 'Aktuell',
+
+  'history.label': 'Kolorierungsverlauf',
+  'history.title': 'Verlauf',
+  'history.usage': '{used} von {quota}',
+  'history.usageLabel': 'Belegter Verlaufsspeicher',
+  'history.empty': 'Kolorierte Bilder erscheinen hier und bleiben auch nach dem Neuladen verfügbar.',
+  'history.open': '{name} öffnen',
+  'history.colorizedAlt': '{name}, koloriert',
+  'history.delete': '{name} aus dem Verlauf löschen',
+  'history.unavailable': 'Der Kolorierungsverlauf ist in diesem Browser nicht verfügbar.',
+  'history.saveFailed': 'Speichern im Verlauf fehlgeschlagen.',
+
+  'errors.network': 'Das Kolorierungs-Backend unter {url} ist nicht erreichbar.',
+  'errors.networkUnknown': 'Das Kolorierungs-Backend ist nicht erreichbar.',
+  'errors.timeout': 'Das Kolorierungs-Backend unter {url} hat nicht rechtzeitig geantwortet.',
+  'errors.timeoutUnknown': 'Das Kolorierungs-Backend hat nicht rechtzeitig geantwortet.',
+  'errors.http': 'Das Backend hat mit Fehler {status} geantwortet: {detail}',
+  'errors.httpUnknown': 'Das Backend hat mit Fehler {status} geantwortet.',
+  'errors.protocol': 'Die Antwort des Backends konnte nicht gelesen werden.',
+  'errors.server': 'Das Backend konnte das Bild nicht kolorieren: {detail}',
+  'errors.unsupportedType': '„{name}“ kann nicht koloriert werden: {type}-Dateien werden nicht unterstützt. Verwende PNG, JPEG, WebP, GIF, BMP oder AVIF.',
+  'errors.unknownType': '„{name}“ kann nicht koloriert werden: Dateien dieses Typs werden nicht unterstützt. Verwende PNG, JPEG, WebP, GIF, BMP oder AVIF.',
+  'errors.fileTooLarge': '„{name}“ ist {size} groß; Dateien bis {max} werden angenommen.',
+  'errors.unreadable': '„{name}“ konnte nicht geöffnet werden. Die Datei ist möglicherweise beschädigt oder unvollständig.',
+  'errors.tooManyPixels': '„{name}“ hat {width}×{height} Pixel; angenommen werden Bilder mit bis zu {max} Pixeln an der längeren Seite.',
+  'errors.invalidUrl': '„{url}“ ist keine gültige URL.',
+  'errors.unsupportedProtocol': 'Nur http- und https-URLs können importiert werden.',
+  'errors.importStatus': '{host} antwortete mit Fehler {status}.',
+  'errors.crossOrigin': '{host} erlaubt das Laden seiner Bilder von anderen Seiten nicht, und das Backend kann sie nicht abrufen. Lade das Bild herunter und ziehe es stattdessen hierher.',
+  'errors.notAnImage': '{url} ist kein Bild ({type}).',
+  'errors.notAnImageUnknown': '{url} ist kein Bild.',
+  'errors.historyQuota': '„{name}“ ist größer als der Speicherplatz für den Verlauf.',
+};
@@ -0,0 +1,265 @@
+import type { Message } from '../utils/i18n';
+
+/** Source catalog: its keys are the message keys, every other locale must translate all of them. */
+export const en = {
+  'app.title': 'Image Colorizer',
+  'app.tagline': 'Upload a black & white image to restore its colors. Our AI pipeline uses self-supervised learning to reimagine the past.',
+  'app.matchSystem': 'Match system',
+  'app.matchSystemHint': 'Follow the system color scheme',
+  'app.theme': 'Theme',
+  'app.theme.dark': 'Dark',
+  'app.theme.navy': 'Navy',
+  'app.theme.light': 'Light',
+  'app.close': 'Close',
+
+  'stage.preprocessing': 'Image Preprocessing',
+  'stage.lab': 'Lab Color Conversion',
+  'stage.encoder': 'Encoder Analysis',
+  'stage.decoder': 'Decoder Reconstruction',
+  'stage.rgb': 'Final RGB Output',
+
+  'common.cancel': 'Cancel',
+  'common.retry': 'Retry',
+  'common.chooseAnother': 'Choose Another File',
+  'common.original': 'Original',
+  'common.colorized': 'Colorized',
+  'common.originalAlt': 'Original B/W',
+  'common.zoomIn': 'Zoom in (+)',
+  'common.zoomOut': 'Zoom out (-)',
+  'common.fit': 'Fit',
+  'common.fitTitle': 'Fit to view (0)',
+  'common.zoomControls': 'Zoom Controls',
+
+  'dropzone.label': 'Upload Image Dropzone',
+  'dropzone.title': 'Drag & drop a B/W image here',
+  'dropzone.or': 'or',
+  'dropzone.browse': 'Browse Files',
+  'dropzone.hint': 'Select several files to colorize them as a batch, or paste an image with Ctrl+V',
+  'dropzone.url': 'Image URL',
+  'dropzone.import': 'Import',
+  'dropzone.importing': 'Importing...',
+  'dropzone.camera': 'Use Camera',
+  'dropzone.hints': 'Add color hints before colorizing',
+  'dropzone.compare': 'Compare backends side by side',
+  'dropzone.notImage': '"{name}" is not an image.',
+  'dropzone.notImageType': '"{name}" is not an image ({type}).',
+  'dropzone.importFailed': 'Could not import {url}.',
+
+  'colorInput.label': 'Color Input',
+  'colorInput.title': 'This Image Already Has Color',
+  'colorInput.body': 'The model only reads the lightness of the image. Converting it to grayscale first shows you exactly what it works from; keeping it uploads the colors as they are.',
+  'colorInput.preview': 'Preview of {name}',
+  'colorInput.keep': 'Keep Colors',
+  'colorInput.desaturate': 'Convert to Grayscale',
+
+  'upload.preparing': 'Preparing Image...',
+  'upload.uploading': 'Uploading Image...',
+  'upload.progress': 'Upload Progress',
+
+  'processing.initializing': 'Initializing Pipeline...',
+  'processing.frame': 'Frame {index} of {total}',
+  'processing.retrying': 'Backend unavailable, retrying ({attempt}/{retries})...',
+  'processing.colorizing': 'Colorizing',
+  'processing.progress': 'Analysis Progress',
+  'processing.stages': 'Pipeline Stages',
+  'processing.stageDone': 'Done',
+  'processing.stageCurrent': 'In progress',
+  'processing.stagePending': 'Pending',
+
+  'announce.preparing': 'Preparing {name}',
+  'announce.uploading': 'Uploading {name}',
+  'announce.stage': 'Stage {index} of {total}: {name}',
+  'announce.starting': 'Starting colorization',
+  'announce.complete': 'Colorization of {name} complete',
+  'announce.completeCached': 'Colorization of {name} complete, loaded from cache',
+  'announce.cancelled': 'Colorization cancelled',
+  'announce.failed': 'Colorization failed',
+  'announce.failedBecause': 'Colorization failed: {reason}',
+
+  'failure.cancelled': 'Colorization Cancelled',
+  'failure.failed': 'Colorization Failed',
+
+  'batch.label': 'Batch Colorization',
+  'batch.running': { one: 'Colorizing {count} Image', other: 'Colorizing {count} Images' },
+  'batch.cancelled': 'Batch Cancelled',
+  'batch.complete': 'Batch Complete',
+  'batch.finished': { one: '{finished} of {count} image finished', other: '{finished} of {count} images finished' },
+  'batch.failed': '{count} failed',
+  'batch.status.queued': 'Queued',
+  'batch.status.processing': 'Processing',
+  'batch.status.done': 'Done',
+  'batch.status.failed': 'Failed',
+  'batch.download': 'Download {name}',
+  'batch.colorizedAlt': 'Colorized {name}',
+  'batch.check': 'Check',
+  'batch.checkLowChroma': 'Output is nearly gray',
+  'batch.checkLuminance': 'Lightness differs from the original',
+  'batch.more': 'Colorize More Images',
+
+  'camera.label': 'Camera Capture',
+  'camera.title': 'Capture a Photo',
+  'camera.preview': 'Camera preview',
+  'camera.device': 'Device',
+  'camera.default': 'Default',
+  'camera.numbered': 'Camera {index}',
+  'camera.capture': 'Capture',
+  'camera.unsupported': 'This browser cannot access cameras (a secure https:// page is required).',
+  'camera.denied': 'Camera access was denied. Allow it in the browser\'s site settings and try again.',
+  'camera.notFound': 'No camera or scanner was found.',
+  'camera.busy': 'The camera is in use by another application.',
+  'camera.failed': 'The camera could not be started.',
+
+  'hints.label': 'Color Hints',
+  'hints.title': 'Add Color Hints',
+  'hints.body': 'Paint or place points where you know the original color, e.g. a blue uniform or a red car.',
+  'hints.unsupported': 'The current backend doesn\'t accept color hints yet. They will not be sent and the result will be fully automatic.',
+  'hints.tools': 'Hint Tools',
+  'hints.tool': 'Tool',
+  'hints.brush': 'Brush',
+  'hints.point': 'Point',
+  'hints.eraser': 'Eraser',
+  'hints.color': 'Color',
+  'hints.size': 'Size',
+  'hints.clear': 'Clear',
+  'hints.imageAlt': 'Grayscale {name}',
+  'hints.canvas': 'Hint canvas',
+  'hints.skip': 'Skip Hints',
+  'hints.colorize': 'Colorize',
+
+  'result.label': 'Colorization Result',
+  'result.title': 'Colorization Complete',
+  'result.reset': 'Colorize Another Image',
+  'result.frames': { one: '{count} frame, {seconds}s {format}', other: '{count} frames, {seconds}s {format}' },
+  'result.fullResolution': 'Full-resolution recombination',
+  'result.serverOutput': 'Server output',
+  'result.fromCache': 'From cache',
+  'result.fromCacheTitle': 'This image was colorized before with the same backend and settings',
+  'result.rerun': 'Force re-run',
+  'result.download': 'Download',
+  'result.downloadTitle': 'Download Image',
+  'result.export': 'Export...',
+  'result.adjust': 'Adjust Colors',
+  'result.diagnostics': 'Diagnostics',
+  'result.hasWarnings': '(has warnings)',
+  'result.originalPhotoAlt': 'Black-and-white photo {name}',
+  'result.originalAnimationAlt': 'Black-and-white animation {name}',
+  'result.colorizedPhotoAlt': 'Colorized photo {name}, {width} by {height} pixels',
+  'result.colorizedAnimationAlt': 'Colorized animation {name}, {width} by {height} pixels',
+  'result.shortcuts': 'Shortcuts:',
+  'result.shortcutDownload': 'download',
+  'result.shortcutExport': 'export',
+  'result.shortcutAdjust': 'adjust',
+  'result.shortcutDiagnostics': 'diagnostics',
+
+  'viewer.controls': 'Comparison Controls',
+  'viewer.mode': 'Comparison Mode',
+  'viewer.split': 'Split',
+  'viewer.flicker': 'Flicker',
+  'viewer.sideBySide': 'Side by Side',
+  'viewer.toggleTitle': 'Toggle before/after (T)',
+  'viewer.showingOriginal': 'Showing Original',
+  'viewer.showingColorized': 'Showing Colorized',
+  'viewer.autoFlicker': 'Auto Flicker',
+  'viewer.oneToOneTitle': 'One image pixel per screen pixel (1)',
+  'viewer.instructions': 'Before and after comparison. Use plus and minus to zoom, arrow keys to pan, 1 for pixel view, 0 to fit.',
+  'viewer.splitPosition': 'Split position',
+  'viewer.colorizedAlt': 'Colorized Output',
+
+  'adjust.label': 'Color Adjustments',
+  'adjust.preview': 'Adjusted preview',
+  'adjust.chroma': 'Saturation',
+  'adjust.hue': 'Hue Rotation',
+  'adjust.warmth': 'Warmth',
+  'adjust.aOffset': 'Green ↔ Magenta (a)',
+  'adjust.bOffset': 'Blue ↔ Yellow (b)',
+  'adjust.strength': 'Strength',
+  'adjust.undo': 'Undo',
+  'adjust.undoTitle': 'Undo (Ctrl+Z)',
+  'adjust.redo': 'Redo',
+  'adjust.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'adjust.reset': 'Reset',
+  'adjust.apply': 'Apply',
+  'adjust.applying': 'Applying...',
+  'adjust.loadFailed': 'Could not load the images for editing.',
+  'adjust.applyFailed': 'Applying the adjustments failed.',
+
+  'export.title': 'Export Image',
+  'export.format': 'Format',
+  'export.quality': 'Quality',
+  'export.layout': 'Layout',
+  'export.layoutColorized': 'Colorized only',
+  'export.layoutSideBySide': 'Side by side',
+  'export.layoutStacked': 'Stacked',
+  'export.caption': 'Caption (optional)',
+  'export.captionPlaceholder': 'e.g. Family portrait, ca. 1920',
+  'export.provenance': 'The file is marked as AI-colorized and records the source file ({name}), date and backend ({backend}).',
+  'export.failed': 'Export failed.',
+  'export.export': 'Export',
+  'export.exporting': 'Exporting...',
+
+  'diagnostics.label': 'Colorization Diagnostics',
+  'diagnostics.lowChroma': 'The model predicted almost no color; the output is close to gray.',
+  'diagnostics.luminanceShift': 'The output\'s lightness differs from the original\'s. The model keeps L unchanged, so this points at the Lab conversion (e.g. lab_denormalize).',
+  'diagnostics.analyzing': 'Analyzing...',
+  'diagnostics.failed': 'The result could not be analyzed.',
+  'diagnostics.colorfulness': 'Colorfulness',
+  'diagnostics.meanChroma': 'Mean chroma',
+  'diagnostics.meanShift': 'Mean L shift',
+  'diagnostics.meanError': 'Mean |ΔL|',
+  'diagnostics.heatmap': 'Chroma heatmap',
+  'diagnostics.heatmapAlt': 'Colorized {name} with chroma heatmap',
+  'diagnostics.gray': 'gray',
+  'diagnostics.vivid': 'vivid',
+  'diagnostics.histogram': '{channel} channel histogram',
+
+  'compare.backends': 'Backends to Compare',
+  'compare.name': 'Name',
+  'compare.nameLabel': 'Name of backend {index}',
+  'compare.urlLabel': 'URL of backend {index}',
+  'compare.remove': 'Remove backend {index}',
+  'compare.add': 'Add Backend',
+  'compare.needMore': 'Enter at least {count} named backends with http(s) URLs.',
+  'compare.label': 'Backend Comparison',
+  'compare.running': 'Comparing Backends',
+  'compare.pick': 'Pick the Best Result',
+  'compare.finished': { one: '{finished} of {count} backend finished', other: '{finished} of {count} backends finished' },
+  'compare.instructions': 'Results of every backend. Use plus and minus to zoom, 0 to fit.',
+  'compare.outputAlt': 'Output of {name}',
+  'compare.colorizing': 'Colorizing...',
+  'compare.queued': 'Queued',
+  'compare.fastest': 'Fastest',
+  'compare.pickThis': 'Pick This One',
+  'compare.current': 'Current',
+
+  'history.label': 'Colorization History',
+  'history.title': 'History',
+  'history.usage': '{used} of {quota}',
+  'history.usageLabel': 'History Storage Used',
+  'history.empty': 'Colorized images will appear here and stay available after a reload.',
+  'history.open': 'Open {name}',
+  'history.colorizedAlt': 'Colorized {name}',
+  'history.delete': 'Delete {name} from history',
+  'history.unavailable': 'Colorization history is unavailable in this browser.',
+  'history.saveFailed': 'Could not save to history.',
+
+  'errors.network': 'Could not reach the colorization backend at {url}.',
+  'errors.networkUnknown': 'Could not reach the colorization backend.',
+  'errors.timeout': 'The colorization backend at {url} did not respond in time.',
+  'errors.timeoutUnknown': 'The colorization backend did not respond in time.',
+  'errors.http': 'The backend answered with error {status}: {detail}',
+  'errors.httpUnknown': 'The backend answered with error {status}.',
+  'errors.protocol': 'The backend sent a response that could not be read.',
+  'errors.server': 'The backend could not colorize the image: {detail}',
+  'errors.unsupportedType': '"{name}" can\'t be colorized: {type} files aren\'t supported. Use PNG, JPEG, WebP, GIF, BMP or AVIF.',
+  'errors.unknownType': '"{name}" can\'t be colorized: files of this type aren\'t supported. Use PNG, JPEG, WebP, GIF, BMP or AVIF.',
+  'errors.fileTooLarge': '"{name}" is {size}; files up to {max} are accepted.',
+  'errors.unreadable': '"{name}" could not be opened. The file may be damaged or incomplete.',
+  'errors.tooManyPixels': '"{name}" is {width}×{height} pixels; images up to {max} pixels on the longer side are accepted.',
+  'errors.invalidUrl': '"{url}" is not a valid URL.',
+  'errors.unsupportedProtocol': 'Only http and https URLs can be imported.',
+  'errors.importStatus': '{host} answered with error {status}.',
+  'errors.crossOrigin': '{host} doesn\'t allow loading its images from other sites, and the backend can\'t fetch them. Download the image and drop it here instead.',
+  'errors.notAnImage': '{url} is not an image ({type}).',
+  'errors.notAnImageUnknown': '{url} is not an image.',
+  'errors.historyQuota': '"{name}" is larger than the history storage quota.',
+} satisfies Record<string, Message>;
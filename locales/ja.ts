@@ -0,0 +1,264 @@
+import type { MessageCatalog } from '../utils/i18n';
+
+export const ja: MessageCatalog = {
+  'app.title': '画像カラー化',
+  'app.tagline': '白黒画像をアップロードして色を復元します。AIパイプラインが自己教師あり学習で過去を描き直します。',
+  'app.matchSystem': 'システムに合わせる',
+  'app.matchSystemHint': 'システムのカラースキームに従う',
+  'app.theme': 'テーマ',
+  'app.theme.dark': 'ダーク',
+  'app.theme.navy': 'ネイビー',
+  'app.theme.light': 'ライト',
+  'app.close': '閉じる',
+
+  'stage.preprocessing': '画像の前処理',
+  'stage.lab': 'Lab色空間への変換',
+  'stage.encoder': 'エンコーダーによる解析',
+  'stage.decoder': 'デコーダーによる再構成',
+  'stage.rgb': 'RGB画像の出力',
+
+  'common.cancel': 'キャンセル',
+  'common.retry': '再試行',
+  'common.chooseAnother': '別のファイルを選択',
+  'common.original': '元画像',
+  'common.colorized': 'カラー化',
+  'common.originalAlt': '元の白黒画像',
+  'common.zoomIn': '拡大 (+)',
+  'common.zoomOut': '縮小 (-)',
+  'common.fit': '全体表示',
+  'common.fitTitle': '画面に合わせる (0)',
+  'common.zoomControls': 'ズーム操作',
+
+  'dropzone.label': '画像アップロード領域',
+  'dropzone.title': '白黒画像をここにドラッグ＆ドロップ',
+  'dropzone.or': 'または',
+  'dropzone.browse': 'ファイルを選択',
+  'dropzone.hint': '複数のファイルを選ぶとまとめてカラー化します。Ctrl+Vで画像を貼り付けることもできます',
+  'dropzone.url': '画像のURL',
+  'dropzone.import': '読み込む',
+  'dropzone.importing': '読み込み中...',
+  'dropzone.camera': 'カメラを使う',
+  'dropzone.hints': 'カラー化の前に色のヒントを付ける',
+  'dropzone.compare': 'バックエンドを並べて比較する',
+  'dropzone.notImage': '「{name}」は画像ではありません。',
+  'dropzone.notImageType': '「{name}」は画像ではありません（{type}）。',
+  'dropzone.importFailed': '{url} を読み込めませんでした。',
+
+  'colorInput.label': 'カラー画像の入力',
+  'colorInput.title': 'この画像にはすでに色があります',
+  'colorInput.body': 'モデルが読み取るのは画像の明るさだけです。先にグレースケールに変換すると、モデルが何をもとに処理するかがそのまま分かります。色を残す場合は、そのままアップロードします。',
+  'colorInput.preview': '{name} のプレビュー',
+  'colorInput.keep': '色を残す',
+  'colorInput.desaturate': 'グレースケールに変換',
+
+  'upload.preparing': '画像を準備中...',
+  'upload.uploading': '画像をアップロード中...',
+  'upload.progress': 'アップロードの進行状況',
+
+  'processing.initializing': 'パイプラインを初期化中...',
+  'processing.frame': 'フレーム {index}/{total}',
+  'processing.retrying': 'バックエンドに接続できません。再試行しています（{attempt}/{retries}）...',
+  'processing.colorizing': 'カラー化中',
+  'processing.progress': '解析の進行状況',
+  'processing.stages': 'パイプラインの段階',
+  'processing.stageDone': '完了',
+  'processing.stageCurrent': '処理中',
+  'processing.stagePending': '待機中',
+
+  'announce.preparing': '{name} を準備しています',
+  'announce.uploading': '{name} をアップロードしています',
+  'announce.stage': '段階 {index}/{total}：{name}',
+  'announce.starting': 'カラー化を開始します',
+  'announce.complete': '{name} のカラー化が完了しました',
+  'announce.completeCached': '{name} のカラー化が完了しました（キャッシュから読み込み）',
+  'announce.cancelled': 'カラー化をキャンセルしました',
+  'announce.failed': 'カラー化に失敗しました',
+  'announce.failedBecause': 'カラー化に失敗しました：{reason}',
+
+  'failure.cancelled': 'カラー化をキャンセルしました',
+  'failure.failed': 'カラー化に失敗しました',
+
+  'batch.label': '一括カラー化',
+  'batch.running': { other: '{count}枚の画像をカラー化中' },
+  'batch.cancelled': '一括処理をキャンセルしました',
+  'batch.complete': '一括処理が完了しました',
+  'batch.finished': { other: '{count}枚中{finished}枚完了' },
+  'batch.failed': '{count}枚失敗',
+  'batch.status.queued': '待機中',
+  'batch.status.processing': '処理中',
+  'batch.status.done': '完了',
+  'batch.status.failed': '失敗',
+  'batch.download': '{name} をダウンロード',
+  'batch.colorizedAlt': 'カラー化した {name}',
+  'batch.check': '要確認',
+  'batch.checkLowChroma': '出力がほぼグレーです',
+  'batch.checkLuminance': '明るさが元画像と異なります',
+  'batch.more': 'ほかの画像をカラー化',
+
+  'camera.label': 'カメラ撮影',
+  'camera.title': '写真を撮影',
+  'camera.preview': 'カメラのプレビュー',
+  'camera.device': 'デバイス',
+  'camera.default': '既定',
+  'camera.numbered': 'カメラ {index}',
+  'camera.capture': '撮影',
+  'camera.unsupported': 'このブラウザーはカメラにアクセスできません（安全な https:// ページが必要です）。',
+  'camera.denied': 'カメラへのアクセスが拒否されました。ブラウザーのサイト設定で許可してから、もう一度お試しください。',
+  'camera.notFound': 'カメラまたはスキャナーが見つかりません。',
+  'camera.busy': 'カメラは別のアプリケーションで使用中です。',
+  'camera.failed': 'カメラを起動できませんでした。',
+
+  'hints.label': '色のヒント',
+  'hints.title': '色のヒントを付ける',
+  'hints.body': '元の色が分かる場所を塗るか、点を置いてください（例：青い制服、赤い車）。',
+  'hints.unsupported': '現在のバックエンドは色のヒントにまだ対応していません。ヒントは送信されず、結果は完全に自動になります。',
+  'hints.tools': 'ヒントツール',
+  'hints.tool': 'ツール',
+  'hints.brush': 'ブラシ',
+  'hints.point': 'ポイント',
+  'hints.eraser': '消しゴム',
+  'hints.color': '色',
+  'hints.size': 'サイズ',
+  'hints.clear': 'クリア',
+  'hints.imageAlt': 'グレースケールの {name}',
+  'hints.canvas': 'ヒントの描画領域',
+  'hints.skip': 'ヒントを省略',
+  'hints.colorize': 'カラー化',
+
+  'result.label': 'カラー化の結果',
+  'result.title': 'カラー化が完了しました',
+  'result.reset': '別の画像をカラー化',
+  'result.frames': { other: '{count}フレーム、{seconds}秒の{format}' },
+  'result.fullResolution': 'フル解像度で再合成',
+  'result.serverOutput': 'サーバーの出力',
+  'result.fromCache': 'キャッシュ',
+  'result.fromCacheTitle': 'この画像は同じバックエンドと設定で以前にカラー化されています',
+  'result.rerun': '再実行する',
+  'result.download': 'ダウンロード',
+  'result.downloadTitle': '画像をダウンロード',
+  'result.export': 'エクスポート...',
+  'result.adjust': '色を調整',
+  'result.diagnostics': '診断',
+  'result.hasWarnings': '（警告あり）',
+  'result.originalPhotoAlt': '白黒写真 {name}',
+  'result.originalAnimationAlt': '白黒アニメーション {name}',
+  'result.colorizedPhotoAlt': 'カラー化した写真 {name}（{width}×{height}ピクセル）',
+  'result.colorizedAnimationAlt': 'カラー化したアニメーション {name}（{width}×{height}ピクセル）',
+  'result.shortcuts': 'ショートカット：',
+  'result.shortcutDownload': 'ダウンロード',
+  'result.shortcutExport': 'エクスポート',
+  'result.shortcutAdjust': '調整',
+  'result.shortcutDiagnostics': '診断',
+
+  'viewer.controls': '比較の操作',
+  'viewer.mode': '比較モード',
+  'viewer.split': '分割',
+  'viewer.flicker': '切り替え',
+  'viewer.sideBySide': '並べて表示',
+  'viewer.toggleTitle': '前後を切り替え (T)',
+  'viewer.showingOriginal': '元画像を表示中',
+  'viewer.showingColorized': 'カラー化を表示中',
+  'viewer.autoFlicker': '自動で切り替え',
+  'viewer.oneToOneTitle': '画像の1ピクセルを画面の1ピクセルで表示 (1)',
+  'viewer.instructions': '前後の比較です。プラスとマイナスで拡大縮小、矢印キーで移動、1でピクセル表示、0で全体表示します。',
+  'viewer.splitPosition': '分割位置',
+  'viewer.colorizedAlt': 'カラー化の出力',
+
+  'adjust.label': '色の調整',
+  'adjust.preview': '調整後のプレビュー',
+  'adjust.chroma': '彩度',
+  'adjust.hue': '色相の回転',
+  'adjust.warmth': '色温度',
+  'adjust.aOffset': '緑 ↔ マゼンタ (a)',
+  'adjust.bOffset': '青 ↔ 黄 (b)',
+  'adjust.strength': '強さ',
+  'adjust.undo': '元に戻す',
+  'adjust.undoTitle': '元に戻す (Ctrl+Z)',
+  'adjust.redo': 'やり直す',
+  'adjust.redoTitle': 'やり直す (Ctrl+Shift+Z)',
+  'adjust.reset': 'リセット',
+  'adjust.apply': '適用',
+  'adjust.applying': '適用中...',
+  'adjust.loadFailed': '編集用の画像を読み込めませんでした。',
+  'adjust.applyFailed': '調整を適用できませんでした。',
+
+  'export.title': '画像をエクスポート',
+  'export.format': '形式',
+  'export.quality': '画質',
+  'export.layout': 'レイアウト',
+  'export.layoutColorized': 'カラー化のみ',
+  'export.layoutSideBySide': '横に並べる',
+  'export.layoutStacked': '縦に並べる',
+  'export.caption': 'キャプション（任意）',
+  'export.captionPlaceholder': '例：家族写真、1920年ごろ',
+  'export.provenance': 'ファイルにはAIでカラー化したことが記録され、元ファイル（{name}）、日付、バックエンド（{backend}）も保存されます。',
+  'export.failed': 'エクスポートに失敗しました。',
+  'export.export': 'エクスポート',
+  'export.exporting': 'エクスポート中...',
+
+  'diagnostics.label': 'カラー化の診断',
+  'diagnostics.lowChroma': 'モデルがほとんど色を予測していません。出力はほぼグレーです。',
+  'diagnostics.luminanceShift': '出力の明るさが元画像と異なります。モデルはLを変更しないため、Lab変換（lab_denormalize など）に問題がある可能性があります。',
+  'diagnostics.analyzing': '解析中...',
+  'diagnostics.failed': '結果を解析できませんでした。',
+  'diagnostics.colorfulness': 'カラフルさ',
+  'diagnostics.meanChroma': '平均彩度',
+  'diagnostics.meanShift': 'Lの平均ずれ',
+  'diagnostics.meanError': '平均 |ΔL|',
+  'diagnostics.heatmap': '彩度ヒートマップ',
+  'diagnostics.heatmapAlt': '彩度ヒートマップを重ねた、カラー化した {name}',
+  'diagnostics.gray': 'グレー',
+  'diagnostics.vivid': '鮮やか',
+  'diagnostics.histogram': '{channel}チャンネルのヒストグラム',
+
+  'compare.backends': '比較するバックエンド',
+  'compare.name': '名前',
+  'compare.nameLabel': 'バックエンド {index} の名前',
+  'compare.urlLabel': 'バックエンド {index} のURL',
+  'compare.remove': 'バックエンド {index} を削除',
+  'compare.add': 'バックエンドを追加',
+  'compare.needMore': '名前と http(s) のURLを持つバックエンドを{count}つ以上入力してください。',
+  'compare.label': 'バックエンドの比較',
+  'compare.running': 'バックエンドを比較中',
+  'compare.pick': '最適な結果を選択',
+  'compare.finished': { other: '{count}件中{finished}件完了' },
+  'compare.instructions': '各バックエンドの結果です。プラスとマイナスで拡大縮小、0で全体表示します。',
+  'compare.outputAlt': '{name} の出力',
+  'compare.colorizing': 'カラー化中...',
+  'compare.queued': '待機中',
+  'compare.fastest': '最速',
+  'compare.pickThis': 'これを選ぶ',
+  'compare.current': '現在',
+
+  'history.label': 'カラー化の履歴',
+  'history.title': '履歴',
+  'history.usage': '{used} / {quota}',
+  'history.usageLabel': '履歴の使用容量',
+  'history.empty': 'カラー化した画像はここに表示され、再読み込み後も残ります。',
+  'history.open': '{name} を開く',
+  'history.colorizedAlt': 'カラー化した {name}',
+  'history.delete': '{name} を履歴から削除',
+  'history.unavailable': 'このブラウザではカラー化履歴を利用できません。',
+  'history.saveFailed': '履歴に保存できませんでした。',
+
+  'errors.network': '{url} のカラー化バックエンドに接続できませんでした。',
+  'errors.networkUnknown': 'カラー化バックエンドに接続できませんでした。',
+  'errors.timeout': '{url} のカラー化バックエンドから時間内に応答がありませんでした。',
+  'errors.timeoutUnknown': 'カラー化バックエンドから時間内に応答がありませんでした。',
+  'errors.http': 'バックエンドがエラー {status} を返しました：{detail}',
+  'errors.httpUnknown': 'バックエンドがエラー {status} を返しました。',
+  'errors.protocol': 'バックエンドの応答を読み取れませんでした。',
+  'errors.server': 'バックエンドで画像をカラー化できませんでした: {detail}',
+  'errors.unsupportedType': '「{name}」はカラー化できません。{type}ファイルには対応していません。PNG、JPEG、WebP、GIF、BMP、AVIFのいずれかを使用してください。',
+  'errors.unknownType': '「{name}」はカラー化できません。この種類のファイルには対応していません。PNG、JPEG、WebP、GIF、BMP、AVIFのいずれかを使用してください。',
+  'errors.fileTooLarge': '「{name}」のサイズは{size}です。{max}までのファイルに対応しています。',
+  'errors.unreadable': '「{name}」を開けませんでした。ファイルが壊れているか、不完全な可能性があります。',
+  'errors.tooManyPixels': '「{name}」は{width}×{height}ピクセルです。長辺{max}ピクセルまでの画像に対応しています。',
+  'errors.invalidUrl': '「{url}」は有効なURLではありません。',
+  'errors.unsupportedProtocol': 'インポートできるのは http と https の URL だけです。',
+  'errors.importStatus': '{host} がエラー {status} を返しました。',
+  'errors.crossOrigin': '{host} は他のサイトからの画像の読み込みを許可しておらず、バックエンドも取得できません。画像をダウンロードしてここにドロップしてください。',
+  'errors.notAnImage': '{url} は画像ではありません（{type}）。',
+  'errors.notAnImageUnknown': '{url} は画像ではありません。',
+  'errors.historyQuota': '「{name}」は履歴の保存容量を超えています。',
+};
@@ -0,0 +1,232 @@
+import type { AnimationInfo, ColorizationResult } from '../types';
+import { ColorizeOptions, ColorizerClient, RetryOptions, colorizeWithRetry } from './colorizerClient';
+import { runWithConcurrency, DEFAULT_BATCH_CONCURRENCY } from './batchQueue';
+import { createResultId } from './results';
+import { EncodableFrame, encodeApng, encodeGif } from '../utils/animationEncoding';
+import { labToSrgb, srgbToL, srgbToLab } from '../utils/lab';
+
+export interface DecodedFrame {
+  image: ImageData;
+  durationMs: number;
+}
+
+export interface DecodedAnimation {
+  width: number;
+  height: number;
+  frames: DecodedFrame[];
+  /** How many times the animation plays; 0 loops forever. */
+  plays: number;
+}
+
+export type AnimationPhase = 'decoding' | 'colorizing' | 'encoding';
+
+export interface AnimationProgress {
+  phase: AnimationPhase;
+  framesDone: number;
+  frameCount: number;
+}
+
+export interface AnimationColorizeOptions extends Pick<ColorizeOptions, 'signal' | 'hints'>, RetryOptions {
+  client: ColorizerClient;
+  /** Frames sent to the backend at once. */
+  concurrency?: number;
+  /** Blend each frame's chroma into the next one where the picture holds still. */
+  smoothing?: boolean;
+  onProgress?: (progress: AnimationProgress) => void;
+}
+
+const ANIMATABLE_TYPES = ['image/gif', 'image/png', 'image/apng', 'image/webp'];
+/** Every frame is held in memory twice (original and colorized). */
+export const MAX_ANIMATION_FRAMES = 300;
+/** Used when the container doesn't say how long a frame is shown. */
+const DEFAULT_FRAME_MS = 100;
+/** Weight of the previous frame's chroma in static regions. */
+const CHROMA_SMOOTHING = 0.6;
+/** Lightness change (0-100) above which a pixel counts as moving and keeps its own chroma. */
+const MOTION_THRESHOLD = 6;
+
+const canDecodeAnimations = () => typeof ImageDecoder !== 'undefined';
+
+async function openDecoder(file: File): Promise<ImageDecoder> {
+  const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: file.type });
+  await decoder.tracks.ready;
+  await decoder.completed;
+  return decoder;
+}
+
+/**
+ * True for GIF/APNG/WebP files with more than one frame. Without WebCodecs'
+ * `ImageDecoder` the browser can't split frames, so everything counts as still.
+ */
+export async function isAnimatedImage(file: File): Promise<boolean> {
+  if (!ANIMATABLE_TYPES.includes(file.type) || !canDecodeAnimations()) return false;
+  try {
+    if (!(await ImageDecoder.isTypeSupported(file.type))) return false;
+    const decoder = await openDecoder(file);
+    const track = decoder.tracks.selectedTrack;
+    const animated = !!track && track.animated && track.frameCount > 1;
+    decoder.close();
+    return animated;
+  } catch {
+    return false;
+  }
+}
+
+/** Decodes every frame, already composited onto the full canvas. */
+export async function decodeAnimation(file: File, signal?: AbortSignal): Promise<DecodedAnimation> {
+  const decoder = await openDecoder(file);
+  try {
+    const track = decoder.tracks.selectedTrack;
+    if (!track) throw new Error(`"${file.name}" contains no image data.`);
+    if (track.frameCount > MAX_ANIMATION_FRAMES) {
+      throw new Error(`"${file.name}" has ${track.frameCount} frames; animations are limited to ${MAX_ANIMATION_FRAMES}.`);
+    }
+
+    const frames: DecodedFrame[] = [];
+    let canvas: OffscreenCanvas | null = null;
+    for (let frameIndex = 0; frameIndex < track.frameCount; frameIndex++) {
+      signal?.throwIfAborted();
+      const { image } = await decoder.decode({ frameIndex });
+      canvas ??= new OffscreenCanvas(image.displayWidth, image.displayHeight);
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0);
+      // VideoFrame durations are in microseconds.
+      frames.push({ image: ctx.getImageData(0, 0, canvas.width, canvas.height), durationMs: image.duration ? image.duration / 1000 : DEFAULT_FRAME_MS });
+      image.close();
+    }
+
+    return {
+      width: canvas.width,
+      height: canvas.height,
+      frames,
+      plays: track.repetitionCount === Infinity ? 0 : track.repetitionCount + 1,
+    };
+  } finally {
+    decoder.close();
+  }
+}
+
+async function frameToFile(image: ImageData, name: string): Promise<File> {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+  return new File([await canvas.convertToBlob({ type: 'image/png' })], name, { type: 'image/png' });
+}
+
+async function readFrame(blob: Blob, width: number, height: number): Promise<ImageData> {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Rebuilds every frame from the original's lightness and the backend's chroma,
+ * like the full-resolution mode does for stills. With `smoothing`, a/b are
+ * blended with the previous frame wherever lightness barely changed, which
+ * removes most of the frame-to-frame color flicker without smearing motion.
+ */
+async function recombineFrames(
+  originals: DecodedFrame[],
+  colorized: ImageData[],
+  smoothing: boolean,
+  signal?: AbortSignal
+): Promise<EncodableFrame[]> {
+  const pixelCount = originals[0].image.width * originals[0].image.height;
+  const prevL = new Float32Array(pixelCount);
+  const prevA = new Float32Array(pixelCount);
+  const prevB = new Float32Array(pixelCount);
+  const lab = new Float32Array(3);
+  const rgb = new Uint8ClampedArray(3);
+  const frames: EncodableFrame[] = [];
+
+  for (let f = 0; f < originals.length; f++) {
+    signal?.throwIfAborted();
+    const source = originals[f].image.data;
+    const color = colorized[f].data;
+    const out = new Uint8ClampedArray(source.length);
+
+    for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+      const L = srgbToL(source[p], source[p + 1], source[p + 2]);
+      srgbToLab(color[p], color[p + 1], color[p + 2], lab);
+      let a = lab[1];
+      let b = lab[2];
+      if (smoothing && f > 0 && Math.abs(L - prevL[i]) < MOTION_THRESHOLD) {
+        a = prevA[i] * CHROMA_SMOOTHING + a * (1 - CHROMA_SMOOTHING);
+        b = prevB[i] * CHROMA_SMOOTHING + b * (1 - CHROMA_SMOOTHING);
+      }
+      prevL[i] = L;
+      prevA[i] = a;
+      prevB[i] = b;
+
+      labToSrgb(L, a, b, rgb);
+      out[p] = rgb[0];
+      out[p + 1] = rgb[1];
+      out[p + 2] = rgb[2];
+      out[p + 3] = source[p + 3];
+    }
+    frames.push({ data: out, durationMs: originals[f].durationMs });
+    // Yield between frames so long animations don't freeze the page.
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return frames;
+}
+
+/**
+ * Colorizes an animated image frame by frame and re-encodes it with the
+ * original timing: GIF stays GIF, APNG and animated WebP come back as APNG.
+ */
+export async function colorizeAnimation(file: File, options: AnimationColorizeOptions): Promise<ColorizationResult> {
+  const { client, signal, hints, concurrency = DEFAULT_BATCH_CONCURRENCY, smoothing = true, onProgress, ...retryOptions } = options;
+
+  onProgress?.({ phase: 'decoding', framesDone: 0, frameCount: 0 });
+  const animation = await decodeAnimation(file, signal);
+  const { width, height, frames } = animation;
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+
+  const colorized: ImageData[] = new Array(frames.length);
+  let framesDone = 0;
+  let failure: unknown = null;
+  onProgress?.({ phase: 'colorizing', framesDone, frameCount: frames.length });
+
+  await runWithConcurrency(frames, concurrency, async (frame, index) => {
+    // One failed frame fails the whole animation; stop sending the rest.
+    if (failure) return;
+    try {
+      const frameFile = await frameToFile(frame.image, `${baseName}-frame-${index + 1}.png`);
+      const blob = await colorizeWithRetry(client, frameFile, { ...retryOptions, signal, hints });
+      colorized[index] = await readFrame(blob, width, height);
+      framesDone++;
+      onProgress?.({ phase: 'colorizing', framesDone, frameCount: frames.length });
+    } catch (e) {
+      failure ??= e;
+    }
+  });
+  if (failure) throw failure;
+
+  onProgress?.({ phase: 'encoding', framesDone, frameCount: frames.length });
+  const output = await recombineFrames(frames, colorized, smoothing, signal);
+  const format: AnimationInfo['format'] = file.type === 'image/gif' ? 'gif' : 'apng';
+  const encodeOptions = { width, height, plays: animation.plays };
+  const blob = format === 'gif' ? encodeGif(output, encodeOptions) : await encodeApng(output, encodeOptions);
+  signal?.throwIfAborted();
+
+  return {
+    id: createResultId(),
+    originalUrl: URL.createObjectURL(file),
+    colorizedUrl: URL.createObjectURL(blob),
+    fileName: file.name,
+    width,
+    height,
+    backendId: client.id,
+    createdAt: Date.now(),
+    mode: 'full-resolution',
+    animation: {
+      format,
+      frameCount: frames.length,
+      durationMs: frames.reduce((sum, frame) => sum + frame.durationMs, 0),
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import type { BatchItem } from '../types';
+import { ColorizerClient, colorizeWithRetry } from './colorizerClient';
+import { finalizeColorization } from './results';
+import { PreprocessOptions, prepareImage } from './preprocess';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/** Runs `worker` over `items` with at most `concurrency` calls in flight; no new calls start once `signal` aborts. */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const laneCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  const lanes = Array.from({ length: laneCount }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+export function createBatchItems(files: File[]): BatchItem[] {
+  const stamp = Date.now();
+  return files.map((file, i) => ({ id: `${stamp}-${i}-${file.name}`, file, status: 'queued' }));
+}
+
+/**
+ * Colorizes every item against `client`. Failures are recorded on the item
+ * instead of rejecting, so one bad file doesn't stop the rest of the batch.
+ * Aborting `signal` stops the batch and rejects with the abort error.
+ * `onUpdate` receives a fresh copy of the item on every status change.
+ */
+export async function colorizeBatch(
+  items: BatchItem[],
+  options: {
+    client: ColorizerClient;
+    signal?: AbortSignal;
+    concurrency?: number;
+    fullResolution?: boolean;
+    /** Validation and upload limits; batches never stop to ask about color inputs. */
+    preprocess?: PreprocessOptions;
+    /** Text recorded as the entry's `error`; the error's message by default. */
+    formatError?: (error: Error) => string;
+    onUpdate: (item: BatchItem) => void;
+  }
+): Promise<BatchItem[]> {
+  const { client, signal, concurrency = DEFAULT_BATCH_CONCURRENCY, fullResolution, preprocess, formatError = e => e.message, onUpdate } = options;
+  const finished: BatchItem[] = items.slice();
+
+  await runWithConcurrency(items, concurrency, async (item, index) => {
+    const update = (patch: Partial<BatchItem>) => {
+      finished[index] = { ...finished[index], ...patch };
+      onUpdate(finished[index]);
+    };
+
+    update({ status: 'processing' });
+    try {
+      const prepared = await prepareImage(item.file, { ...preprocess, detectColor: false, signal });
+      const blob = await colorizeWithRetry(client, prepared.upload, { signal, onStage: stage => update({ stage }) });
+      const result = await finalizeColorization(prepared.file, blob, client.id, { fullResolution, signal });
+      update({ status: 'done', result });
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.error(e);
+      update({ status: 'failed', error: e instanceof Error ? formatError(e) : String(e) });
+    }
+  }, signal);
+
+  signal?.throwIfAborted();
+  return finished;
+}
@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ColorizerClient,
+  ColorizerError,
+  colorizeWithRetry,
+  createHttpColorizerClient,
+  createInMemoryColorizerClient,
+} from './colorizerClient';
+
+const BASE_URL = 'https://colorizer.example';
+const file = new File([new Uint8Array([1, 2, 3])], 'photo.png', { type: 'image/png' });
+
+/** A response body that arrives in the given pieces, split wherever the test likes. */
+function chunkedBody(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+const ndjson = (...chunks: string[]) =>
+  new Response(chunkedBody(...chunks), { headers: { 'Content-Type': 'application/x-ndjson' } });
+
+function stubFetch(response: () => Response | Promise<Response>) {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => response());
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createInMemoryColorizerClient', () => {
+  it('answers with the uploaded file and reports the configured stages and timings', async () => {
+    const client = createInMemoryColorizerClient({ stages: ['lab', 'encoder'], timings: { encoder: 0.5 } });
+    const onStage = vi.fn();
+    const onTiming = vi.fn();
+    const onUploadProgress = vi.fn();
+
+    await expect(client.colorize(file, { onStage, onTiming, onUploadProgress })).resolves.toBe(file);
+    expect(onStage.mock.calls).toEqual([['lab'], ['encoder']]);
+    expect(onTiming).toHaveBeenCalledWith({ encoder: 0.5 });
+    expect(onUploadProgress).toHaveBeenCalledWith(1);
+  });
+
+  it('returns the configured result or error', async () => {
+    const result = new Blob(['colorized'], { type: 'image/png' });
+    await expect(createInMemoryColorizerClient({ result }).colorize(file)).resolves.toBe(result);
+
+    const error = new ColorizerError('down', 'network');
+    await expect(createInMemoryColorizerClient({ error }).colorize(file)).rejects.toBe(error);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = createInMemoryColorizerClient({ delayMs: 10_000 }).colorize(file, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('createHttpColorizerClient', () => {
+  it('reports stages and timings from the progress stream, across chunk boundaries', async () => {
+    const image = btoa('PNGDATA');
+    stubFetch(() => ndjson(
+      '{"event":"stage","stage":"preprocessing"}\n{"event":"sta',
+      'ge","stage":"encoder"}\n',
+      '{"event":"timing","stages":{"preprocessing":0.01,"encoder":0.8}}\n',
+      `{"event":"result","mime":"image/png","data":"${image}"}\n`
+    ));
+    const onStage = vi.fn();
+    const onTiming = vi.fn();
+
+    const blob = await createHttpColorizerClient({ baseUrl: BASE_URL }).colorize(file, { onStage, onTiming });
+
+    expect(onStage.mock.calls).toEqual([['preprocessing'], ['encoder']]);
+    expect(onTiming).toHaveBeenCalledWith({ preprocessing: 0.01, encoder: 0.8 });
+    expect(blob.type).toBe('image/png');
+    expect(await blob.text()).toBe('PNGDATA');
+  });
+
+  it('accepts a result line without a trailing newline', async () => {
+    stubFetch(() => ndjson(`{"event":"result","mime":"image/png","data":"${btoa('OK')}"}`));
+    const blob = await createHttpColorizerClient({ baseUrl: BASE_URL }).colorize(file);
+    expect(await blob.text()).toBe('OK');
+  });
+
+  it('turns an error event into a non-retryable server error', async () => {
+    stubFetch(() => ndjson('{"event":"stage","stage":"lab"}\n{"event":"error","detail":"CUDA out of memory"}\n'));
+    const error = await createHttpColorizerClient({ baseUrl: BASE_URL }).colorize(file).catch(e => e);
+
+    expect(error).toBeInstanceOf(ColorizerError);
+    expect(error).toMatchObject({ kind: 'server', detail: 'CUDA out of memory', retryable: false });
+  });
+
+  it('reports a stream without a result or with broken JSON as a protocol error', async () => {
+    stubFetch(() => ndjson('{"event":"stage","stage":"lab"}\n'));
+    await expect(createHttpColorizerClient({ baseUrl: BASE_URL }).colorize(file)).rejects.toMatchObject({ kind: 'protocol' });
+
+    stubFetch(() => ndjson('{"event":\n'));
+    await expect(createHttpColorizerClient({ baseUrl: BASE_URL }).colorize(file)).rejects.toMatchObject({ kind: 'protocol' });
+  });
+
+  it('reads timings from the Server-Timing header of a plain image response', async () => {
+    stubFetch(() => new Response(new Blob(['IMG']), {
+      headers: { 'Content-Type': 'image/png', 'Server-Timing': 'preprocessing;dur=12.5, encoder;desc="enc";dur=830, cache' },
+    }));
+    const onTiming = vi.fn();
+
+    const blob = await createHttpColorizerClient({ baseUrl: BASE_URL }).colorize(file, { onTiming });
+
+    expect(onTiming).toHaveBeenCalledWith({ preprocessing: 0.0125, encoder: 0.83 });
+    expect(await blob.text()).toBe('IMG');
+  });
+
+  it('does not report timings when the header has no durations', async () => {
+    stubFetch(() => new Response('IMG', { headers: { 'Content-Type': 'image/png', 'Server-Timing': 'cache, db;desc="miss"' } }));
+    const onTiming = vi.fn();
+    await createHttpColorizerClient({ baseUrl: BASE_URL }).colorize(file, { onTiming });
+    expect(onTiming).not.toHaveBeenCalled();
+  });
+
+  it('posts to /colorize and surfaces the backend detail of HTTP errors', async () => {
+    const fetchMock = stubFetch(() => Response.json({ detail: 'Model is loading' }, { status: 503, statusText: 'Service Unavailable' }));
+    const error = await createHttpColorizerClient({ baseUrl: `${BASE_URL}/`, headers: { 'X-Key': 'k' } }).colorize(file).catch(e => e);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${BASE_URL}/colorize`);
+    expect(init?.method).toBe('POST');
+    expect(init?.headers).toMatchObject({ 'X-Key': 'k' });
+    expect(error).toMatchObject({ kind: 'http', status: 503, detail: 'Model is loading', backendUrl: BASE_URL, retryable: true });
+  });
+
+  it('reports a failed request as a retryable network error', async () => {
+    stubFetch(() => Promise.reject(new TypeError('Failed to fetch')));
+    await expect(createHttpColorizerClient({ baseUrl: BASE_URL }).colorize(file)).rejects.toMatchObject({ kind: 'network', retryable: true });
+  });
+});
+
+describe('colorizeWithRetry', () => {
+  const failingClient = (errors: Error[]): ColorizerClient & { calls: number } => ({
+    id: 'flaky',
+    calls: 0,
+    async colorize(input) {
+      const error = errors[this.calls++];
+      if (error) throw error;
+      return input;
+    },
+  });
+
+  it('retries retryable errors with backoff until an attempt succeeds', async () => {
+    const client = failingClient([new ColorizerError('down', 'network'), new ColorizerError('busy', 'http', 502)]);
+    const onRetry = vi.fn();
+
+    await expect(colorizeWithRetry(client, file, { backoffMs: 0, onRetry })).resolves.toBe(file);
+    expect(client.calls).toBe(3);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const errors = Array.from({ length: 5 }, () => new ColorizerError('down', 'network'));
+    const client = failingClient(errors);
+
+    await expect(colorizeWithRetry(client, file, { retries: 2, backoffMs: 0 })).rejects.toBe(errors[2]);
+    expect(client.calls).toBe(3);
+  });
+
+  it('does not retry client errors, server-side failures or foreign errors', async () => {
+    for (const error of [new ColorizerError('bad', 'http', 422), new ColorizerError('oom', 'server'), new Error('bug')]) {
+      const client = failingClient([error]);
+      await expect(colorizeWithRetry(client, file, { backoffMs: 0 })).rejects.toBe(error);
+      expect(client.calls).toBe(1);
+    }
+  });
+});
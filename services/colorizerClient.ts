@@ -0,0 +1,464 @@
+import { createContext, useContext } from 'react';
+import { ColorHints, HINTS_SCHEMA_VERSION, appendHintsToFormData, isEmptyHints } from './hints';
+
+/**
+ * Pipeline stages reported by the backend's streamed progress protocol. The
+ * built-in model uses the five named keys; other backends may add their own
+ * (e.g. 'upscaling').
+ */
+export type ColorizerStage = 'preprocessing' | 'lab' | 'encoder' | 'decoder' | 'rgb' | (string & {});
+
+/** Seconds the backend spent in each stage of one request. */
+export type StageTimings = Partial<Record<ColorizerStage, number>>;
+
+export interface ColorizeOptions {
+  signal?: AbortSignal;
+  /**
+   * Called on every real stage transition. Clients whose backend doesn't
+   * stream progress never call it; callers should animate on their own then.
+   */
+  onStage?: (stage: ColorizerStage) => void;
+  /** Called once with the backend's timing report, if it sends one. */
+  onTiming?: (timings: StageTimings) => void;
+  /**
+   * Share of the request body sent so far (0-1). Clients that can't observe
+   * the upload call it once with 1 when the request is on its way.
+   */
+  onUploadProgress?: (fraction: number) => void;
+  /** User color hints; only sent to backends whose capabilities list the schema version. */
+  hints?: ColorHints;
+}
+
+/** What a backend supports beyond plain `/colorize`, as reported by GET /capabilities. */
+export interface ColorizerCapabilities {
+  /** Color hint schema versions the backend accepts; empty when hints are unsupported. */
+  hints: number[];
+  /** Whether the backend can download images by URL for the client (GET /fetch). */
+  urlImport: boolean;
+  /** Checkpoint the backend serves, when it says; results of different checkpoints differ. */
+  model?: string;
+}
+
+export const NO_CAPABILITIES: ColorizerCapabilities = { hints: [], urlImport: false };
+
+export const supportsHints = (capabilities: ColorizerCapabilities) =>
+  capabilities.hints.includes(HINTS_SCHEMA_VERSION);
+
+/**
+ * Anything that can turn a B/W image into a colorized one. `ImageColorizer`
+ * only talks to the backend through this interface, so hosts can point it at
+ * staging, localhost or an in-memory fake without patching the component.
+ */
+export interface ColorizerClient {
+  /** Stable identifier of the backend/model, e.g. for logs and history. */
+  readonly id: string;
+  colorize(file: File, options?: ColorizeOptions): Promise<Blob>;
+  /** Optional; clients without it are treated as supporting nothing extra. */
+  getCapabilities?(signal?: AbortSignal): Promise<ColorizerCapabilities>;
+  /** Downloads an image server side, for URLs the browser can't fetch because of CORS. */
+  fetchImage?(url: string, signal?: AbortSignal): Promise<Blob>;
+}
+
+export async function getClientCapabilities(client: ColorizerClient, signal?: AbortSignal): Promise<ColorizerCapabilities> {
+  if (!client.getCapabilities) return NO_CAPABILITIES;
+  try {
+    return await client.getCapabilities(signal);
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    console.warn(`Could not read capabilities of ${client.id}.`, e);
+    return NO_CAPABILITIES;
+  }
+}
+
+/**
+ * `server` is a failure the backend reported inside an already successful
+ * progress stream; it happened while running the model, so retrying won't help.
+ */
+export type ColorizerErrorKind = 'http' | 'network' | 'timeout' | 'protocol' | 'server';
+
+/** Failure talking to a colorization backend. Aborts are reported as DOM `AbortError`s instead. */
+export class ColorizerError extends Error {
+  readonly kind: ColorizerErrorKind;
+  readonly status?: number;
+  /** Base URL of the backend that failed, for messages rebuilt in another language. */
+  readonly backendUrl?: string;
+  /** The backend's own explanation of an HTTP or server error. */
+  readonly detail?: string;
+
+  constructor(message: string, kind: ColorizerErrorKind, status?: number, context: { backendUrl?: string; detail?: string } = {}) {
+    super(message);
+    this.name = 'ColorizerError';
+    this.kind = kind;
+    this.status = status;
+    this.backendUrl = context.backendUrl;
+    this.detail = context.detail;
+  }
+
+  /** Network failures and 5xx responses are worth another attempt; everything else is not. */
+  get retryable(): boolean {
+    return this.kind === 'network' || (this.kind === 'http' && (this.status ?? 0) >= 500);
+  }
+}
+
+export const isAbortError = (e: unknown): boolean =>
+  e instanceof DOMException && e.name === 'AbortError';
+
+/** `setTimeout` as a promise that rejects with an `AbortError` when `signal` fires. */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface HttpColorizerConfig {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+const DEFAULT_BASE_URL = 'https://noob-coder01-bw-colorizer-backend.hf.space';
+const DEFAULT_TIMEOUT_MS = 120_000;
+const NDJSON_MEDIA_TYPE = 'application/x-ndjson';
+
+type StreamEvent =
+  | { event: 'stage'; stage: ColorizerStage }
+  | { event: 'timing'; stages: StageTimings }
+  | { event: 'result'; mime: string; data: string }
+  | { event: 'error'; detail: string };
+
+function base64ToBlob(data: string, mime: string): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+}
+
+async function readErrorDetail(res: Response): Promise<string> {
+  try {
+    const body = await res.json();
+    if (typeof body?.detail === 'string') return body.detail;
+  } catch {
+    // Not a FastAPI error body; fall back to the status text.
+  }
+  return res.statusText;
+}
+
+async function httpError(res: Response, backendUrl: string): Promise<ColorizerError> {
+  const detail = await readErrorDetail(res);
+  return new ColorizerError(`API Error ${res.status}: ${detail}`, 'http', res.status, { backendUrl, detail });
+}
+
+/**
+ * `Server-Timing` header of a plain-image response, e.g.
+ * `preprocessing;dur=12.5, encoder;dur=830`. Durations are milliseconds there.
+ */
+function parseServerTiming(header: string | null): StageTimings | null {
+  if (!header) return null;
+  const timings: StageTimings = {};
+  for (const metric of header.split(',')) {
+    const [name, ...params] = metric.split(';').map(part => part.trim());
+    const dur = params.find(param => param.startsWith('dur='));
+    const ms = dur ? Number(dur.slice(4)) : NaN;
+    if (name && Number.isFinite(ms)) timings[name] = ms / 1000;
+  }
+  return Object.keys(timings).length > 0 ? timings : null;
+}
+
+/** Reads the NDJSON progress stream from `/colorize` until the result arrives. */
+async function readProgressStream(
+  body: ReadableStream<Uint8Array>,
+  { onStage, onTiming }: Pick<ColorizeOptions, 'onStage' | 'onTiming'>
+): Promise<Blob> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string): Blob | null => {
+    if (!line.trim()) return null;
+    const message = JSON.parse(line) as StreamEvent;
+    if (message.event === 'stage') onStage?.(message.stage);
+    else if (message.event === 'timing') onTiming?.(message.stages);
+    else if (message.event === 'error') throw new ColorizerError(`API Error: ${message.detail}`, 'server', undefined, { detail: message.detail });
+    else if (message.event === 'result') return base64ToBlob(message.data, message.mime);
+    return null;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const blob = handleLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (blob) {
+        reader.cancel().catch(() => {});
+        return blob;
+      }
+    }
+
+    if (done) {
+      const blob = handleLine(buffer);
+      if (blob) return blob;
+      throw new ColorizerError('API Error: progress stream ended without a result', 'protocol');
+    }
+  }
+}
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+  }
+  return headers;
+}
+
+/**
+ * `fetch` on top of XMLHttpRequest, which (unlike fetch) reports upload
+ * progress. The body is exposed as a stream just like fetch's, so the NDJSON
+ * reader and `res.blob()` work unchanged; the x-user-defined charset keeps
+ * binary responses byte-exact in `responseText`.
+ */
+function fetchWithUploadProgress(
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: FormData; signal: AbortSignal },
+  onUploadProgress: (fraction: number) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method, url);
+    Object.entries(init.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.overrideMimeType('text/plain; charset=x-user-defined');
+
+    let stream: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({ start: controller => { stream = controller; } });
+    let offset = 0;
+    const flush = () => {
+      const text = xhr.responseText;
+      if (text.length === offset) return;
+      const chunk = new Uint8Array(text.length - offset);
+      for (let i = 0; i < chunk.length; i++) chunk[i] = text.charCodeAt(offset + i) & 0xff;
+      offset = text.length;
+      stream.enqueue(chunk);
+    };
+    const fail = (error: Error) => {
+      stream.error(error);
+      reject(error);
+    };
+
+    xhr.upload.onprogress = e => { if (e.lengthComputable) onUploadProgress(e.loaded / e.total); };
+    xhr.upload.onload = () => onUploadProgress(1);
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState !== XMLHttpRequest.HEADERS_RECEIVED) return;
+      try {
+        resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText, headers: parseResponseHeaders(xhr.getAllResponseHeaders()) }));
+      } catch (e) {
+        fail(e instanceof Error ? e : new TypeError(String(e)));
+      }
+    };
+    xhr.onprogress = flush;
+    xhr.onload = () => {
+      flush();
+      stream.close();
+    };
+    // Same error types as fetch, so callers can't tell the two apart.
+    xhr.onerror = () => fail(new TypeError('Network request failed'));
+    xhr.onabort = () => fail(new DOMException('Aborted', 'AbortError'));
+    init.signal.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(init.body);
+  });
+}
+
+function parseHeaders(raw: string | undefined): Record<string, string> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    console.warn('COLORIZER_API_HEADERS is not valid JSON, ignoring it.');
+    return {};
+  }
+}
+
+// Values are injected by vite.config.ts from the environment / .env files.
+export const envColorizerConfig: HttpColorizerConfig = {
+  baseUrl: process.env.COLORIZER_API_URL || DEFAULT_BASE_URL,
+  headers: parseHeaders(process.env.COLORIZER_API_HEADERS),
+  timeoutMs: Number(process.env.COLORIZER_API_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+};
+
+export function createHttpColorizerClient(config: HttpColorizerConfig): ColorizerClient {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let capabilities: Promise<ColorizerCapabilities> | null = null;
+
+  const getCapabilities = (signal?: AbortSignal) => {
+    capabilities ??= fetch(`${baseUrl}/capabilities`, { headers: config.headers, signal })
+      .then(async res => {
+        // Deployments from before the endpoint existed answer 404: nothing extra supported.
+        if (!res.ok) return NO_CAPABILITIES;
+        const body = await res.json();
+        return {
+          hints: Array.isArray(body?.hints) ? body.hints : [],
+          urlImport: Array.isArray(body?.import) && body.import.includes('url'),
+          model: typeof body?.model === 'string' ? body.model : undefined,
+        };
+      })
+      .catch(e => {
+        capabilities = null;
+        throw e;
+      });
+    return capabilities;
+  };
+
+  const client: ColorizerClient = {
+    id: baseUrl,
+    getCapabilities,
+    async fetchImage(url, signal) {
+      let res: Response;
+      try {
+        res = await fetch(`${baseUrl}/fetch?url=${encodeURIComponent(url)}`, { headers: config.headers, signal });
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        throw new ColorizerError(`Could not reach the colorization backend at ${baseUrl}.`, 'network', undefined, { backendUrl: baseUrl });
+      }
+      if (!res.ok) throw await httpError(res, baseUrl);
+      return res.blob();
+    },
+    async colorize(file, options = {}) {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (!isEmptyHints(options.hints) && supportsHints(await getClientCapabilities(client, options.signal))) {
+        appendHintsToFormData(formData, options.hints!);
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort);
+
+      try {
+        const init = {
+          method: 'POST',
+          headers: { Accept: `${NDJSON_MEDIA_TYPE}, image/*`, ...config.headers },
+          body: formData,
+          signal: controller.signal,
+        };
+        const withProgress = options.onUploadProgress && typeof XMLHttpRequest !== 'undefined';
+        const res = withProgress
+          ? await fetchWithUploadProgress(`${baseUrl}/colorize`, init, options.onUploadProgress)
+          : await fetch(`${baseUrl}/colorize`, init);
+        // fetch can't report upload progress, but a response means the whole body was sent.
+        if (!withProgress) options.onUploadProgress?.(1);
+        if (!res.ok) {
+          throw await httpError(res, baseUrl);
+        }
+
+        // Older deployments ignore the Accept header and answer with the image directly.
+        const contentType = res.headers.get('content-type') ?? '';
+        if (contentType.includes(NDJSON_MEDIA_TYPE) && res.body) {
+          return await readProgressStream(res.body, options);
+        }
+        const timings = parseServerTiming(res.headers.get('server-timing'));
+        if (timings) options.onTiming?.(timings);
+        return await res.blob();
+      } catch (e) {
+        if (options.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        if (controller.signal.aborted) {
+          throw new ColorizerError(`The colorization backend at ${baseUrl} did not respond within ${timeoutMs / 1000}s.`, 'timeout', undefined, { backendUrl: baseUrl });
+        }
+        if (e instanceof ColorizerError) throw e;
+        if (e instanceof SyntaxError) throw new ColorizerError(`Malformed progress stream: ${e.message}`, 'protocol');
+        throw new ColorizerError(`Could not reach the colorization backend at ${baseUrl}.`, 'network', undefined, { backendUrl: baseUrl });
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+      }
+    },
+  };
+  return client;
+}
+
+/**
+ * Stand-in for tests and storybook-style fixtures: answers every request with
+ * the same blob (by default the uploaded file itself) after an optional delay.
+ * Pass `stages` to emulate a streaming backend and `timings` for its timing report.
+ */
+export function createInMemoryColorizerClient(
+  options: {
+    result?: Blob;
+    delayMs?: number;
+    error?: Error;
+    id?: string;
+    stages?: ColorizerStage[];
+    timings?: StageTimings;
+    capabilities?: ColorizerCapabilities;
+  } = {}
+): ColorizerClient {
+  const { result, delayMs = 0, error, id = 'in-memory', stages = [], timings, capabilities = NO_CAPABILITIES } = options;
+  return {
+    id,
+    getCapabilities: async () => capabilities,
+    async colorize(file, { signal, onStage, onTiming, onUploadProgress } = {}) {
+      onUploadProgress?.(1);
+      stages.forEach(stage => onStage?.(stage));
+      if (delayMs > 0) await delay(delayMs, signal);
+      if (error) throw error;
+      if (timings) onTiming?.(timings);
+      return result ?? file;
+    },
+  };
+}
+
+export interface RetryOptions {
+  /** Additional attempts after the first one. */
+  retries?: number;
+  /** Delay before the first retry; doubles on every further attempt. */
+  backoffMs?: number;
+  onRetry?: (attempt: number, error: ColorizerError) => void;
+}
+
+export const DEFAULT_RETRIES = 2;
+const DEFAULT_BACKOFF_MS = 1000;
+
+/** `client.colorize` with exponential backoff for retryable `ColorizerError`s. */
+export async function colorizeWithRetry(
+  client: ColorizerClient,
+  file: File,
+  options: ColorizeOptions & RetryOptions = {}
+): Promise<Blob> {
+  const { retries = DEFAULT_RETRIES, backoffMs = DEFAULT_BACKOFF_MS, onRetry, ...colorizeOptions } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await client.colorize(file, colorizeOptions);
+    } catch (e) {
+      if (!(e instanceof ColorizerError) || !e.retryable || attempt >= retries) throw e;
+      onRetry?.(attempt + 1, e);
+      const jitter = 0.8 + Math.random() * 0.4;
+      await delay(backoffMs * 2 ** attempt * jitter, colorizeOptions.signal);
+    }
+  }
+}
+
+export const defaultColorizerClient = createHttpColorizerClient(envColorizerConfig);
+
+export const ColorizerClientContext = createContext<ColorizerClient>(defaultColorizerClient);
+
+export const useColorizerClient = (override?: ColorizerClient) => {
+  const fromContext = useContext(ColorizerClientContext);
+  return override ?? fromContext;
+};
@@ -0,0 +1,76 @@
+import type { ComparisonEntry } from '../types';
+import { ColorizerClient, colorizeWithRetry, createHttpColorizerClient, envColorizerConfig } from './colorizerClient';
+import { finalizeColorization } from './results';
+import { PreprocessOptions, prepareImage } from './preprocess';
+
+export interface CompareEndpoint {
+  /** Label shown above the result, e.g. "epoch 40" or "staging". */
+  name: string;
+  /** Base URL of an HTTP backend; ignored when `client` is set. */
+  url?: string;
+  /** For backends that aren't plain HTTP endpoints; such entries can't be edited in the UI. */
+  client?: ColorizerClient;
+}
+
+export const MIN_COMPARE_ENDPOINTS = 2;
+
+export const isUsableEndpoint = (endpoint: CompareEndpoint) =>
+  !!endpoint.name.trim() && (!!endpoint.client || /^https?:\/\/\S+$/.test(endpoint.url?.trim() ?? ''));
+
+export function clientForEndpoint(endpoint: CompareEndpoint): ColorizerClient {
+  return endpoint.client ?? createHttpColorizerClient({ ...envColorizerConfig, baseUrl: endpoint.url!.trim() });
+}
+
+/**
+ * Sends the same prepared image to every endpoint at once. Failures are
+ * recorded on the entry like in batches, so one unreachable backend doesn't
+ * hide the others. Retries are off: a retried request would distort the
+ * latency the comparison is partly about.
+ */
+export async function compareBackends(
+  file: File,
+  endpoints: CompareEndpoint[],
+  options: {
+    signal?: AbortSignal;
+    fullResolution?: boolean;
+    preprocess?: PreprocessOptions;
+    /** Text recorded as the entry's `error`; the error's message by default. */
+    formatError?: (error: Error) => string;
+    onUpdate: (entry: ComparisonEntry) => void;
+  }
+): Promise<ComparisonEntry[]> {
+  const { signal, fullResolution, preprocess, formatError = e => e.message, onUpdate } = options;
+  const stamp = Date.now();
+  const clients = endpoints.map(clientForEndpoint);
+  const entries: ComparisonEntry[] = endpoints.map((endpoint, i) => ({
+    id: `${stamp}-${i}`,
+    name: endpoint.name.trim(),
+    backendId: clients[i].id,
+    status: 'queued',
+  }));
+  entries.forEach(onUpdate);
+
+  const prepared = await prepareImage(file, { ...preprocess, detectColor: false, signal });
+
+  await Promise.all(entries.map(async (entry, index) => {
+    const update = (patch: Partial<ComparisonEntry>) => {
+      entries[index] = { ...entries[index], ...patch };
+      onUpdate(entries[index]);
+    };
+
+    update({ status: 'processing' });
+    try {
+      const started = performance.now();
+      const blob = await colorizeWithRetry(clients[index], prepared.upload, { signal, retries: 0, onStage: stage => update({ stage }) });
+      const latencyMs = performance.now() - started;
+      const result = await finalizeColorization(prepared.file, blob, clients[index].id, { fullResolution, signal });
+      update({ status: 'done', latencyMs, result });
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.error(e);
+      update({ status: 'failed', error: e instanceof Error ? formatError(e) : String(e) });
+    }
+  }));
+
+  return entries;
+}
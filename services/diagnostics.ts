@@ -0,0 +1,118 @@
+import type { ColorizationDiagnostics, DiagnosticFlag } from '../types';
+import { srgbToL, srgbToLab } from '../utils/lab';
+
+export const HISTOGRAM_BINS = 32;
+/** Longer side both images are sampled at; the statistics don't need every pixel. */
+const SAMPLE_SIDE = 384;
+/** Heatmap cells along the longer side. */
+const GRID_LONG_SIDE = 16;
+
+/** Below this mean chroma an output reads as gray; typical colorizations land between 10 and 30. */
+export const LOW_CHROMA_THRESHOLD = 4;
+/** Allowed drift of mean L; resampling and 8-bit rounding stay well under 1. */
+export const LUMINANCE_SHIFT_THRESHOLD = 3;
+
+function sample(bitmap: ImageBitmap, width: number, height: number): Uint8ClampedArray {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Analyzes a colorized output against its original: a/b histograms, mean
+ * chroma, colorfulness, a coarse chroma grid for the heatmap and how well the
+ * original lightness survived. Both images are sampled at the output's aspect
+ * ratio, so server-resolution and full-resolution results compare alike.
+ */
+export async function computeDiagnostics(original: Blob, colorized: Blob, signal?: AbortSignal): Promise<ColorizationDiagnostics> {
+  const [originalBitmap, colorizedBitmap] = await Promise.all([
+    createImageBitmap(original, { imageOrientation: 'from-image' }),
+    createImageBitmap(colorized),
+  ]);
+
+  try {
+    signal?.throwIfAborted();
+    const scale = Math.min(1, SAMPLE_SIDE / Math.max(colorizedBitmap.width, colorizedBitmap.height));
+    const width = Math.max(1, Math.round(colorizedBitmap.width * scale));
+    const height = Math.max(1, Math.round(colorizedBitmap.height * scale));
+    const output = sample(colorizedBitmap, width, height);
+    const input = sample(originalBitmap, width, height);
+    return analyze(output, input, width, height);
+  } finally {
+    originalBitmap.close();
+    colorizedBitmap.close();
+  }
+}
+
+function analyze(output: Uint8ClampedArray, input: Uint8ClampedArray, width: number, height: number): ColorizationDiagnostics {
+  const pixelCount = width * height;
+  const histogramA = new Array<number>(HISTOGRAM_BINS).fill(0);
+  const histogramB = new Array<number>(HISTOGRAM_BINS).fill(0);
+  const columns = width >= height ? GRID_LONG_SIDE : Math.max(1, Math.round(GRID_LONG_SIDE * width / height));
+  const rows = height >= width ? GRID_LONG_SIDE : Math.max(1, Math.round(GRID_LONG_SIDE * height / width));
+  const gridSums = new Float64Array(columns * rows);
+  const gridCounts = new Uint32Array(columns * rows);
+  const binOf = (value: number) => Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor((value + 128) / 256 * HISTOGRAM_BINS)));
+  const lab = new Float32Array(3);
+
+  let chromaSum = 0;
+  let outputLSum = 0;
+  let inputLSum = 0;
+  let lErrorSum = 0;
+  // Hasler–Süsstrunk opponent channels.
+  let rgSum = 0, rgSquares = 0, ybSum = 0, ybSquares = 0;
+
+  for (let y = 0; y < height; y++) {
+    const cellRow = Math.min(rows - 1, Math.floor(y / height * rows)) * columns;
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const r = output[p], g = output[p + 1], b = output[p + 2];
+      srgbToLab(r, g, b, lab);
+      const chroma = Math.hypot(lab[1], lab[2]);
+      histogramA[binOf(lab[1])]++;
+      histogramB[binOf(lab[2])]++;
+      chromaSum += chroma;
+
+      const cell = cellRow + Math.min(columns - 1, Math.floor(x / width * columns));
+      gridSums[cell] += chroma;
+      gridCounts[cell]++;
+
+      const inputL = srgbToL(input[p], input[p + 1], input[p + 2]);
+      outputLSum += lab[0];
+      inputLSum += inputL;
+      lErrorSum += Math.abs(lab[0] - inputL);
+
+      const rg = r - g;
+      const yb = 0.5 * (r + g) - b;
+      rgSum += rg;
+      rgSquares += rg * rg;
+      ybSum += yb;
+      ybSquares += yb * yb;
+    }
+  }
+
+  const rgMean = rgSum / pixelCount;
+  const ybMean = ybSum / pixelCount;
+  const rgVariance = Math.max(0, rgSquares / pixelCount - rgMean * rgMean);
+  const ybVariance = Math.max(0, ybSquares / pixelCount - ybMean * ybMean);
+  const colorfulness = Math.sqrt(rgVariance + ybVariance) + 0.3 * Math.hypot(rgMean, ybMean);
+
+  const meanChroma = chromaSum / pixelCount;
+  const meanLuminanceShift = (outputLSum - inputLSum) / pixelCount;
+  const flags: DiagnosticFlag[] = [];
+  if (meanChroma < LOW_CHROMA_THRESHOLD) flags.push('low-chroma');
+  if (Math.abs(meanLuminanceShift) > LUMINANCE_SHIFT_THRESHOLD) flags.push('luminance-shift');
+
+  return {
+    histogramA: histogramA.map(count => count / pixelCount),
+    histogramB: histogramB.map(count => count / pixelCount),
+    meanChroma,
+    colorfulness,
+    meanLuminanceShift,
+    meanLuminanceError: lErrorSum / pixelCount,
+    chromaGrid: { columns, rows, values: Array.from(gridSums, (sum, i) => gridCounts[i] ? sum / gridCounts[i] : 0) },
+    flags,
+  };
+}
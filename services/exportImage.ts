@@ -0,0 +1,123 @@
+import type { ColorizationResult } from '../types';
+import { embedProvenance } from '../utils/imageMetadata';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+export type ExportLayout = 'colorized' | 'side-by-side' | 'stacked';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** 0-1; ignored for PNG. */
+  quality: number;
+  layout: ExportLayout;
+  /** Drawn under composites; ignored for the plain colorized export. */
+  caption?: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.92,
+  layout: 'colorized',
+  caption: '',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const BACKGROUND = '#000000';
+
+async function loadBitmap(url: string): Promise<ImageBitmap> {
+  return createImageBitmap(await fetch(url).then(res => res.blob()));
+}
+
+function drawComposite(original: ImageBitmap, colorized: ImageBitmap, layout: ExportLayout, caption: string): OffscreenCanvas {
+  const stacked = layout === 'stacked';
+  // Scale the original to match the colorized image along the shared edge.
+  const scale = stacked ? colorized.width / original.width : colorized.height / original.height;
+  const ow = Math.round(original.width * scale);
+  const oh = Math.round(original.height * scale);
+  const gap = Math.round(Math.max(colorized.width, colorized.height) * 0.02);
+
+  const contentWidth = stacked ? colorized.width : ow + gap + colorized.width;
+  const contentHeight = stacked ? oh + gap + colorized.height : colorized.height;
+  const fontSize = Math.max(14, Math.round(contentWidth / 48));
+  const captionHeight = caption ? Math.round(fontSize * 2.2) : 0;
+
+  const canvas = new OffscreenCanvas(contentWidth, contentHeight + captionHeight);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.filter = 'grayscale(1)';
+  ctx.drawImage(original, 0, 0, ow, oh);
+  ctx.filter = 'none';
+  if (stacked) ctx.drawImage(colorized, 0, oh + gap);
+  else ctx.drawImage(colorized, ow + gap, 0);
+
+  if (caption) {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `${fontSize}px system-ui, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(caption, canvas.width / 2, contentHeight + captionHeight / 2, canvas.width - fontSize * 2);
+  }
+  return canvas;
+}
+
+/** Renders `result` per `options` and embeds provenance metadata into the file. */
+export async function exportColorization(
+  result: ColorizationResult,
+  options: ExportOptions
+): Promise<{ blob: Blob; fileName: string }> {
+  const colorized = await loadBitmap(result.colorizedUrl);
+  let canvas: OffscreenCanvas;
+
+  if (options.layout === 'colorized') {
+    canvas = new OffscreenCanvas(colorized.width, colorized.height);
+    const ctx = canvas.getContext('2d')!;
+    // JPEG has no alpha; give every format the same opaque background.
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(colorized, 0, 0);
+  } else {
+    const original = await loadBitmap(result.originalUrl);
+    canvas = drawComposite(original, colorized, options.layout, options.caption?.trim() ?? '');
+    original.close();
+  }
+  colorized.close();
+
+  const encoded = await canvas.convertToBlob({ type: MIME_TYPES[options.format], quality: options.quality });
+  // Browsers without a WebP encoder silently fall back to PNG; name the file after what we got.
+  const blob = await embedProvenance(encoded, {
+    sourceFileName: result.fileName,
+    createdAt: new Date(result.createdAt).toISOString(),
+    colorized: true,
+    backendId: result.backendId,
+    extra: {
+      Mode: result.mode,
+      Layout: options.layout,
+      ...(result.adjustments ? { Adjusted: 'True' } : {}),
+    },
+  }, canvas.width, canvas.height);
+
+  const base = result.fileName.replace(/\.[^.]+$/, '');
+  const prefix = options.layout === 'colorized' ? 'colorized' : 'comparison';
+  return { blob, fileName: `${prefix}_${base}.${EXTENSIONS[blob.type] ?? 'png'}` };
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,42 @@
+import type { RecombineRequest, RecombineResponse } from '../workers/recombine.worker';
+
+/**
+ * Recombines the original full-resolution lightness with the colorized image's
+ * chroma in a Web Worker. The backend colorizes at 256px and upsamples the RGB
+ * result, which blurs large scans; this keeps every original detail sharp.
+ */
+export async function recombineFullResolution(original: Blob, colorized: Blob, signal?: AbortSignal): Promise<Blob> {
+  signal?.throwIfAborted();
+  const [originalBitmap, colorizedBitmap] = await Promise.all([
+    createImageBitmap(original, { imageOrientation: 'from-image' }),
+    createImageBitmap(colorized),
+  ]);
+
+  const worker = new Worker(new URL('../workers/recombine.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<Blob>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<RecombineResponse>) => {
+      finish();
+      const response = e.data;
+      if (response.status === 'done') resolve(response.blob);
+      else reject(new Error(`Full-resolution recombination failed: ${response.message}`));
+    };
+    worker.onerror = e => {
+      finish();
+      reject(new Error(`Full-resolution recombination failed: ${e.message}`));
+    };
+
+    const request: RecombineRequest = { original: originalBitmap, colorized: colorizedBitmap };
+    worker.postMessage(request, [originalBitmap, colorizedBitmap]);
+  });
+}
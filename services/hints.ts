@@ -0,0 +1,40 @@
+// Versioned payload for user color hints. The client sends it next to `file` in
+// the `/colorize` form data:
+//   - `hints`:      JSON, `ColorHintsPayload` below
+//   - `hints_mask`: optional PNG, same aspect as the image, painted strokes in
+//                   their hint color and fully transparent everywhere else
+// Backends advertise the schema versions they understand via GET /capabilities.
+
+export const HINTS_SCHEMA_VERSION = 1;
+
+export interface ColorHintPoint {
+  /** Position relative to the image, 0-1 from the top-left corner. */
+  x: number;
+  y: number;
+  /** `#rrggbb` */
+  color: string;
+  /** Radius relative to the image width. */
+  radius: number;
+}
+
+export interface ColorHintsPayload {
+  version: typeof HINTS_SCHEMA_VERSION;
+  /** Pixel size of `hints_mask`; points are resolution independent. */
+  width: number;
+  height: number;
+  points: ColorHintPoint[];
+  hasMask: boolean;
+}
+
+export interface ColorHints {
+  payload: ColorHintsPayload;
+  mask?: Blob;
+}
+
+export const isEmptyHints = (hints: ColorHints | null | undefined) =>
+  !hints || (hints.payload.points.length === 0 && !hints.payload.hasMask);
+
+export function appendHintsToFormData(formData: FormData, hints: ColorHints): void {
+  formData.append('hints', JSON.stringify(hints.payload));
+  if (hints.mask) formData.append('hints_mask', hints.mask, 'hints_mask.png');
+}
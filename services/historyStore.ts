@@ -0,0 +1,117 @@
+import type { AnimationInfo, ColorizationMode, ColorizationResult } from '../types';
+import type { Adjustments } from '../utils/adjustments';
+import { createDatabaseOpener, promisify, transactionDone } from '../utils/idb';
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  fileName: string;
+  width: number;
+  height: number;
+  backendId: string;
+  /** Missing on entries saved before full-resolution output existed. */
+  mode?: ColorizationMode;
+  animation?: AnimationInfo;
+  original: Blob;
+  colorized: Blob;
+  /** Set on adjusted results: the settings and the output they were applied to. */
+  adjustments?: Adjustments;
+  unadjusted?: Blob;
+  /** Combined size of all blobs, used for quota accounting. */
+  sizeBytes: number;
+}
+
+/** An entry that would not fit even in an empty history. */
+export class HistoryQuotaError extends Error {
+  readonly fileName: string;
+
+  constructor(fileName: string) {
+    super(`"${fileName}" is larger than the history storage quota.`);
+    this.name = 'HistoryQuotaError';
+    this.fileName = fileName;
+  }
+}
+
+const DB_NAME = 'bw-colorizer';
+const DB_VERSION = 1;
+const STORE = 'history';
+const BY_CREATED_AT = 'createdAt';
+
+export const DEFAULT_HISTORY_QUOTA_BYTES = 200 * 1024 * 1024;
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  const store = db.createObjectStore(STORE, { keyPath: 'id' });
+  store.createIndex(BY_CREATED_AT, 'createdAt');
+});
+
+/** All entries, newest first. */
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index(BY_CREATED_AT);
+  const entries = await promisify(index.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.reverse();
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Deletes the oldest entries until the stored total fits in `quotaBytes`.
+ * Returns the ids that were evicted.
+ */
+export async function enforceHistoryQuota(quotaBytes: number): Promise<string[]> {
+  const entries = await listHistoryEntries();
+  let total = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const evicted: string[] = [];
+
+  for (let i = entries.length - 1; i >= 0 && total > quotaBytes; i--) {
+    await deleteHistoryEntry(entries[i].id);
+    total -= entries[i].sizeBytes;
+    evicted.push(entries[i].id);
+  }
+  return evicted;
+}
+
+/** Copies the blobs behind `result`'s object URLs into IndexedDB, replacing an earlier entry with the same id. */
+export async function addHistoryEntry(
+  result: ColorizationResult,
+  quotaBytes = DEFAULT_HISTORY_QUOTA_BYTES
+): Promise<HistoryEntry> {
+  const [original, colorized, unadjusted] = await Promise.all([
+    fetch(result.originalUrl).then(res => res.blob()),
+    fetch(result.colorizedUrl).then(res => res.blob()),
+    result.unadjustedUrl ? fetch(result.unadjustedUrl).then(res => res.blob()) : undefined,
+  ]);
+
+  const entry: HistoryEntry = {
+    id: result.id,
+    createdAt: result.createdAt,
+    fileName: result.fileName,
+    width: result.width,
+    height: result.height,
+    backendId: result.backendId,
+    mode: result.mode,
+    animation: result.animation,
+    original,
+    colorized,
+    adjustments: result.adjustments,
+    unadjusted,
+    sizeBytes: original.size + colorized.size + (unadjusted?.size ?? 0),
+  };
+
+  if (entry.sizeBytes > quotaBytes) {
+    throw new HistoryQuotaError(entry.fileName);
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(entry);
+  await transactionDone(tx);
+
+  await enforceHistoryQuota(quotaBytes);
+  return entry;
+}
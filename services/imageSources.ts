@@ -0,0 +1,120 @@
+import { ColorizerClient, getClientCapabilities, isAbortError } from './colorizerClient';
+
+export type ImageImportFailure = 'invalid-url' | 'unsupported-protocol' | 'http-status' | 'cross-origin' | 'not-an-image';
+
+/**
+ * A URL that couldn't be imported; the message is meant for the user. `reason`
+ * and `params` carry the same facts for messages in other languages.
+ */
+export class ImageImportError extends Error {
+  readonly reason: ImageImportFailure;
+  readonly params: Record<string, string | number>;
+
+  constructor(message: string, reason: ImageImportFailure, params: Record<string, string | number> = {}) {
+    super(message);
+    this.name = 'ImageImportError';
+    this.reason = reason;
+    this.params = params;
+  }
+}
+
+export interface ImageSelection {
+  images: File[];
+  /** One message per file that was dropped from the selection. */
+  rejected: string[];
+}
+
+const describeNonImage = (file: File) => `"${file.name}" is not an image${file.type ? ` (${file.type})` : ''}.`;
+
+/**
+ * Splits a selection into the images to colorize and explanations for the
+ * rest; `describeRejection` words those, e.g. in the UI's language.
+ */
+export function validateImageFiles(files: Iterable<File>, describeRejection: (file: File) => string = describeNonImage): ImageSelection {
+  const images: File[] = [];
+  const rejected: string[] = [];
+  for (const file of files) {
+    if (file.type.startsWith('image/')) images.push(file);
+    else rejected.push(describeRejection(file));
+  }
+  return { images, rejected };
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tif',
+};
+
+const timestampedName = (prefix: string, type: string) =>
+  `${prefix}-${new Date().toISOString().replace(/[:.]/g, '-')}.${EXTENSIONS[type] ?? 'png'}`;
+
+/**
+ * Files on the clipboard of a paste event. Screenshots and images copied from
+ * other apps arrive with a generic name like "image.png", so those are renamed
+ * to something that is recognizable in the history.
+ */
+export function filesFromClipboard(data: DataTransfer | null): File[] {
+  if (!data) return [];
+  const files = data.files.length > 0
+    ? Array.from(data.files)
+    : Array.from(data.items).filter(item => item.kind === 'file').map(item => item.getAsFile()).filter((file): file is File => !!file);
+  return files.map(file => /^image\.\w+$/.test(file.name)
+    ? new File([file], timestampedName('pasted', file.type), { type: file.type, lastModified: file.lastModified })
+    : file);
+}
+
+function fileNameFromUrl(url: URL, type: string): string {
+  const last = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+  if (/\.\w{2,4}$/.test(last)) return last;
+  return `${last || url.hostname}.${EXTENSIONS[type] ?? 'png'}`;
+}
+
+/**
+ * Downloads the image at `url`. The browser tries first; when the site doesn't
+ * send CORS headers (or isn't reachable from here) the backend fetches it,
+ * provided its capabilities say it can.
+ */
+export async function importImageFromUrl(url: string, client: ColorizerClient, signal?: AbortSignal): Promise<File> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new ImageImportError(`"${url}" is not a valid URL.`, 'invalid-url', { url });
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ImageImportError('Only http and https URLs can be imported.', 'unsupported-protocol', { url });
+  }
+
+  let blob: Blob;
+  try {
+    const res = await fetch(parsed.href, { signal });
+    if (!res.ok) {
+      throw new ImageImportError(`${parsed.hostname} answered ${res.status} ${res.statusText}.`.trim(), 'http-status', { host: parsed.hostname, status: res.status });
+    }
+    blob = await res.blob();
+  } catch (e) {
+    // fetch only throws TypeError for network failures, which includes CORS rejections.
+    if (isAbortError(e) || !(e instanceof TypeError)) throw e;
+    const { urlImport } = await getClientCapabilities(client, signal);
+    if (!urlImport || !client.fetchImage) {
+      throw new ImageImportError(
+        `${parsed.hostname} doesn't allow loading its images from other sites, and the backend can't fetch them. Download the image and drop it here instead.`,
+        'cross-origin',
+        { host: parsed.hostname }
+      );
+    }
+    blob = await client.fetchImage(parsed.href, signal);
+  }
+
+  if (!blob.type.startsWith('image/')) {
+    throw new ImageImportError(`${parsed.href} is not an image${blob.type ? ` (${blob.type})` : ''}.`, 'not-an-image', { url: parsed.href, type: blob.type });
+  }
+  return new File([blob], fileNameFromUrl(parsed, blob.type), { type: blob.type });
+}
+
+/** File name for a camera or scanner capture. */
+export const captureFileName = (type: string) => timestampedName('capture', type);
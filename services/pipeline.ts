@@ -0,0 +1,173 @@
+import type { ColorizationResult, ProgressReport } from '../types';
+import { ColorizeOptions, ColorizerClient, ColorizerStage, RetryOptions, StageTimings, colorizeWithRetry, delay } from './colorizerClient';
+import { finalizeColorization } from './results';
+import { colorizeAnimation } from './animation';
+
+export interface PipelineStage {
+  key: ColorizerStage;
+  name: string;
+}
+
+export const PIPELINE_STAGES: PipelineStage[] = [
+  { key: 'preprocessing', name: 'Image Preprocessing' },
+  { key: 'lab', name: 'Lab Color Conversion' },
+  { key: 'encoder', name: 'Encoder Analysis' },
+  { key: 'decoder', name: 'Decoder Reconstruction' },
+  { key: 'rgb', name: 'Final RGB Output' },
+];
+
+export const DEFAULT_STAGE_DURATIONS = [1.0, 1.5, 2.5, 2.0, 1.0]; // in seconds
+
+/** Used for stages that neither the caller nor the built-in defaults have a duration for. */
+const FALLBACK_STAGE_DURATION = 1.5;
+
+/**
+ * Seconds per entry of `stages`: the backend's reported timing where there is
+ * one, then the caller's `stageDurations` (by index), then the built-in default
+ * for that stage key.
+ */
+export function resolveStageDurations(stages: PipelineStage[], stageDurations?: number[], timings?: StageTimings | null): number[] {
+  return stages.map((stage, i) => {
+    const builtIn = PIPELINE_STAGES.findIndex(s => s.key === stage.key);
+    return timings?.[stage.key] ?? stageDurations?.[i] ?? DEFAULT_STAGE_DURATIONS[builtIn] ?? FALLBACK_STAGE_DURATION;
+  });
+}
+
+/** Share of the whole run (0-100) that has elapsed when `stageIndex` starts. */
+export function stagePercent(stageDurations: number[], stageIndex: number): number {
+  const totalDuration = stageDurations.reduce((a, b) => a + b, 0);
+  return (stageDurations.slice(0, stageIndex).reduce((a, b) => a + b, 0) / totalDuration) * 100;
+}
+
+/**
+ * Runs one still image through `client`. Streaming backends drive the stage
+ * reports; otherwise they follow `stageDurations` (one per entry of `stages`)
+ * from the moment the upload finishes until the response arrives.
+ */
+export async function processImage(
+  file: File,
+  onProgress: (report: ProgressReport) => void,
+  stages: PipelineStage[],
+  stageDurations: number[],
+  client: ColorizerClient,
+  options: Pick<ColorizeOptions, 'signal' | 'hints' | 'onTiming' | 'onUploadProgress'> & {
+    fullResolution?: boolean;
+    /** Sent instead of `file`, e.g. a downscaled copy; the result is still built from `file`. */
+    upload?: File;
+  } & RetryOptions = {}
+): Promise<ColorizationResult> {
+  const { signal, fullResolution, upload = file, onUploadProgress, ...requestOptions } = options;
+
+  const percentAt = (stageIndex: number) => stagePercent(stageDurations, stageIndex);
+
+  let lastStageIndex = -1;
+  const reportStage = (stageIndex: number) => {
+    // Never move backwards, e.g. when the stream starts after the fallback timer advanced.
+    if (stageIndex <= lastStageIndex) return;
+    lastStageIndex = stageIndex;
+    onProgress({
+      stageIndex,
+      stageName: stages[stageIndex].name,
+      percent: percentAt(stageIndex),
+    });
+  };
+
+  // 1. Start API call; streaming backends report real stage transitions
+  let resolveStreamStarted: () => void = () => {};
+  const streamStarted = new Promise<void>(resolve => { resolveStreamStarted = resolve; });
+  let isStreaming = false;
+
+  let resolveUploaded: () => void = () => {};
+  const uploaded = new Promise<void>(resolve => { resolveUploaded = resolve; });
+
+  const onStage = (stage: ColorizerStage) => {
+    isStreaming = true;
+    resolveUploaded();
+    resolveStreamStarted();
+    const stageIndex = stages.findIndex(s => s.key === stage);
+    if (stageIndex >= 0) reportStage(stageIndex);
+  };
+
+  const handleUploadProgress = (fraction: number) => {
+    onUploadProgress?.(fraction);
+    if (fraction >= 1) resolveUploaded();
+  };
+
+  const apiPromise = colorizeWithRetry(client, upload, { ...requestOptions, signal, onStage, onUploadProgress: handleUploadProgress });
+  // Settled failures are rethrown below; don't let the race leave them unhandled.
+  apiPromise.catch(() => {});
+  let responded = false;
+  const apiSettled = apiPromise.then(() => {}, () => {}).finally(() => { responded = true; });
+
+  // The stages can't have started while the image is still being sent.
+  await Promise.race([uploaded, apiSettled]);
+
+  // 2. Fall back to the timed animation until (unless) the server starts streaming
+  for (let i = 0; i < stages.length && !isStreaming && !responded; i++) {
+    reportStage(i);
+    await Promise.race([
+      delay(stageDurations[i] * 1000, signal),
+      streamStarted,
+      // A response that arrives early shouldn't sit through the rest of the animation.
+      apiSettled,
+    ]);
+  }
+  
+  // 3. Wait for API, then jump to the final stage if the animation hadn't got there
+  const colorized = await apiPromise;
+  signal?.throwIfAborted();
+  reportStage(stages.length - 1);
+  const result = await finalizeColorization(file, colorized, client.id, { fullResolution, signal });
+
+  onProgress({
+    stageIndex: stages.length - 1,
+    stageName: stages[stages.length - 1].name,
+    percent: 100,
+  });
+
+  return result;
+}
+
+/**
+ * Animated inputs: decoding is the first stage, the middle stages advance
+ * with the share of frames back from the backend, and re-encoding is the last
+ * stage. Every report carries the frame currently in flight.
+ */
+export async function processAnimation(
+  file: File,
+  onProgress: (report: ProgressReport) => void,
+  stages: PipelineStage[],
+  stageDurations: number[],
+  client: ColorizerClient,
+  options: Pick<ColorizeOptions, 'signal' | 'hints'> & { concurrency?: number; smoothing?: boolean } & RetryOptions = {}
+): Promise<ColorizationResult> {
+  const lastStage = stages.length - 1;
+  // With fewer than three stages there is no middle; frames count towards the last one.
+  const firstMiddle = Math.min(1, lastStage);
+  const report = (stageIndex: number, percent: number, frame?: ProgressReport['frame']) =>
+    onProgress({ stageIndex, stageName: stages[stageIndex].name, percent, frame });
+
+  const result = await colorizeAnimation(file, {
+    ...options,
+    client,
+    onProgress: ({ phase, framesDone, frameCount }) => {
+      if (phase === 'decoding') {
+        report(0, 0);
+        return;
+      }
+      const frame = { index: Math.min(framesDone + 1, frameCount), total: frameCount };
+      if (phase === 'encoding') {
+        report(lastStage, stagePercent(stageDurations, lastStage), frame);
+        return;
+      }
+      const start = stagePercent(stageDurations, firstMiddle);
+      const percent = start + (stagePercent(stageDurations, lastStage) - start) * (framesDone / frameCount);
+      let stageIndex = firstMiddle;
+      while (stageIndex < lastStage - 1 && stagePercent(stageDurations, stageIndex + 1) <= percent) stageIndex++;
+      report(stageIndex, percent, frame);
+    },
+  });
+
+  report(lastStage, 100, { index: result.animation.frameCount, total: result.animation.frameCount });
+  return result;
+}
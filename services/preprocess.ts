@@ -0,0 +1,230 @@
+import { labToSrgb, srgbToL } from '../utils/lab';
+
+export type ImageRejectionReason = 'unsupported-type' | 'file-too-large' | 'unreadable' | 'too-many-pixels';
+
+/**
+ * A file that can't be colorized; the message is meant for the user. `reason`
+ * and `params` carry the same facts for messages in other languages.
+ */
+export class ImageRejectedError extends Error {
+  readonly reason: ImageRejectionReason;
+  readonly params: Record<string, string | number>;
+
+  constructor(message: string, reason: ImageRejectionReason, params: Record<string, string | number> = {}) {
+    super(message);
+    this.name = 'ImageRejectedError';
+    this.reason = reason;
+    this.params = params;
+  }
+}
+
+export interface PreprocessOptions {
+  /** Larger files are rejected, in bytes. */
+  maxFileSize?: number;
+  /** Images whose longer side exceeds this many pixels are rejected. */
+  maxDimension?: number;
+  /**
+   * Longer side the upload is downscaled to. The full-size image is kept for
+   * the result, so full-resolution mode still uses every original pixel.
+   */
+  uploadMaxSide?: number;
+  /** Look for color in the input so callers can offer to desaturate it. */
+  detectColor?: boolean;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: Required<PreprocessOptions> = {
+  maxFileSize: 50 * 1024 * 1024,
+  maxDimension: 16384,
+  uploadMaxSide: 4096,
+  detectColor: true,
+};
+
+export interface PreparedImage {
+  /** Upright, validated image at full size; results are built from this one. */
+  file: File;
+  /** What is sent to the backend: `file` itself or a downscaled copy. */
+  upload: File;
+  width: number;
+  height: number;
+  /** The EXIF orientation was baked into the pixels. */
+  orientationFixed: boolean;
+  downscaled: boolean;
+  /** False when color detection was skipped. */
+  hasColor: boolean;
+}
+
+/** Formats every current browser decodes. TIFF, HEIC and SVG are deliberately absent. */
+const SUPPORTED_TYPES = ['image/png', 'image/apng', 'image/jpeg', 'image/webp', 'image/gif', 'image/bmp', 'image/avif'];
+
+/** Side of the thumbnail the color check samples. */
+const COLOR_SAMPLE_SIDE = 128;
+/** max(R,G,B) - min(R,G,B) above which a pixel counts as colored; leaves room for JPEG noise. */
+const COLOR_CHROMA_THRESHOLD = 24;
+/** Share of colored pixels above which the whole image counts as a color photo. */
+const COLOR_PIXEL_SHARE = 0.05;
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * EXIF orientation (1-8) of a JPEG, or null when it has none. Other formats
+ * are left alone: cameras and scanners write EXIF into JPEGs.
+ */
+function readJpegOrientation(bytes: Uint8Array): number | null {
+  try {
+    return findOrientationTag(bytes);
+  } catch {
+    // Truncated or malformed EXIF (RangeError from the DataView); treat it as absent.
+    return null;
+  }
+}
+
+function findOrientationTag(bytes: Uint8Array): number | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // Start of scan: no more metadata segments.
+    if (marker === 0xda) return null;
+    const isExif = marker === 0xe1 && String.fromCharCode(...bytes.subarray(offset + 4, offset + 10)) === 'Exif\0\0';
+    if (isExif) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/** JPEGs stay JPEG to keep uploads small; everything else becomes lossless PNG. */
+async function encodeLike(canvas: OffscreenCanvas, source: File): Promise<File> {
+  const type = source.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  const blob = await canvas.convertToBlob({ type, quality: 0.92 });
+  const name = type === source.type ? source.name : source.name.replace(/\.[^.]+$/, '') + '.png';
+  return new File([blob], name, { type: blob.type, lastModified: source.lastModified });
+}
+
+function drawScaled(bitmap: ImageBitmap, maxSide: number): OffscreenCanvas {
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+function hasVisibleColor(bitmap: ImageBitmap): boolean {
+  const canvas = drawScaled(bitmap, COLOR_SAMPLE_SIDE);
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  let colored = 0;
+  for (let p = 0; p < data.length; p += 4) {
+    const r = data[p], g = data[p + 1], b = data[p + 2];
+    if (Math.max(r, g, b) - Math.min(r, g, b) > COLOR_CHROMA_THRESHOLD) colored++;
+  }
+  return colored / (data.length / 4) > COLOR_PIXEL_SHARE;
+}
+
+/**
+ * Validates `file` and gets it ready for upload: rejects unsupported, corrupt,
+ * oversized and overlarge images with an `ImageRejectedError`, bakes a JPEG's
+ * EXIF orientation into the pixels (the backend ignores EXIF), downscales huge
+ * scans for transfer and checks whether the image has color. Animated files
+ * are only validated, since re-encoding them would drop every frame but one.
+ */
+export async function prepareImage(
+  file: File,
+  options: PreprocessOptions & { animated?: boolean; signal?: AbortSignal } = {}
+): Promise<PreparedImage> {
+  const {
+    maxFileSize = DEFAULT_PREPROCESS_OPTIONS.maxFileSize,
+    maxDimension = DEFAULT_PREPROCESS_OPTIONS.maxDimension,
+    uploadMaxSide = DEFAULT_PREPROCESS_OPTIONS.uploadMaxSide,
+    detectColor = DEFAULT_PREPROCESS_OPTIONS.detectColor,
+    animated = false,
+    signal,
+  } = options;
+
+  if (!SUPPORTED_TYPES.includes(file.type)) {
+    const type = file.type.replace(/^image\//, '').toUpperCase();
+    throw new ImageRejectedError(`"${file.name}" can't be colorized: ${type || 'this type of'} files aren't supported. Use PNG, JPEG, WebP, GIF, BMP or AVIF.`, 'unsupported-type', { name: file.name, type });
+  }
+  if (file.size > maxFileSize) {
+    const size = formatMegabytes(file.size);
+    const max = formatMegabytes(maxFileSize);
+    throw new ImageRejectedError(`"${file.name}" is ${size}; files up to ${max} are accepted.`, 'file-too-large', { name: file.name, size, max });
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageRejectedError(`"${file.name}" could not be opened. The file may be damaged or incomplete.`, 'unreadable', { name: file.name });
+  }
+
+  try {
+    signal?.throwIfAborted();
+    const { width, height } = bitmap;
+    if (Math.max(width, height) > maxDimension) {
+      throw new ImageRejectedError(
+        `"${file.name}" is ${width}×${height} pixels; images up to ${maxDimension} pixels on the longer side are accepted.`,
+        'too-many-pixels',
+        { name: file.name, width, height, max: maxDimension }
+      );
+    }
+    if (animated) {
+      return { file, upload: file, width, height, orientationFixed: false, downscaled: false, hasColor: false };
+    }
+
+    const orientation = file.type === 'image/jpeg' ? readJpegOrientation(new Uint8Array(await file.arrayBuffer())) : null;
+    const orientationFixed = orientation !== null && orientation > 1;
+    const upright = orientationFixed ? await encodeLike(drawScaled(bitmap, Math.max(width, height)), file) : file;
+
+    const downscaled = Math.max(width, height) > uploadMaxSide;
+    const upload = downscaled ? await encodeLike(drawScaled(bitmap, uploadMaxSide), upright) : upright;
+    signal?.throwIfAborted();
+
+    return {
+      file: upright,
+      upload,
+      width,
+      height,
+      orientationFixed,
+      downscaled,
+      hasColor: detectColor && hasVisibleColor(bitmap),
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Replaces every pixel with the gray of the same CIE lightness, which is
+ * exactly the channel the model reads.
+ */
+export async function desaturateImage(file: File, signal?: AbortSignal): Promise<File> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = drawScaled(bitmap, Math.max(bitmap.width, bitmap.height));
+  bitmap.close();
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const rgb = new Uint8ClampedArray(3);
+  for (let p = 0; p < data.length; p += 4) {
+    labToSrgb(srgbToL(data[p], data[p + 1], data[p + 2]), 0, 0, rgb);
+    data[p] = rgb[0];
+    data[p + 1] = rgb[1];
+    data[p + 2] = rgb[2];
+  }
+  ctx.putImageData(image, 0, 0);
+  signal?.throwIfAborted();
+  return encodeLike(canvas, file);
+}
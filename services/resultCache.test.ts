@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { computeCacheKey } from './resultCache';
+
+const input = new File([new Uint8Array([1, 2, 3, 4])], 'scan.png', { type: 'image/png' });
+const backend = { id: 'https://colorizer.example', model: 'unet-v2' };
+
+describe('computeCacheKey', () => {
+  it('is a hex SHA-256 that depends on the bytes, not the file name', async () => {
+    const key = await computeCacheKey(input, backend, { mode: 'standard' });
+    const renamed = new File([new Uint8Array([1, 2, 3, 4])], 'renamed.png', { type: 'image/png' });
+    const edited = new File([new Uint8Array([1, 2, 3, 5])], 'scan.png', { type: 'image/png' });
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await computeCacheKey(renamed, backend, { mode: 'standard' })).toBe(key);
+    expect(await computeCacheKey(edited, backend, { mode: 'standard' })).not.toBe(key);
+  });
+
+  it('ignores the order of option keys and options left undefined', async () => {
+    const key = await computeCacheKey(input, backend, { mode: 'standard', hints: { points: [{ x: 1, y: 2 }], hasMask: false } });
+
+    expect(await computeCacheKey(input, backend, { hints: { hasMask: false, points: [{ y: 2, x: 1 }] }, mode: 'standard', smoothing: undefined })).toBe(key);
+  });
+
+  it('changes with the backend, the model and every option', async () => {
+    const key = await computeCacheKey(input, backend, { mode: 'standard', hints: { points: [{ x: 1, y: 2 }] } });
+    const variants = await Promise.all([
+      computeCacheKey(input, { id: 'http://localhost:8000', model: 'unet-v2' }, { mode: 'standard', hints: { points: [{ x: 1, y: 2 }] } }),
+      computeCacheKey(input, { id: backend.id }, { mode: 'standard', hints: { points: [{ x: 1, y: 2 }] } }),
+      computeCacheKey(input, backend, { mode: 'full-resolution', hints: { points: [{ x: 1, y: 2 }] } }),
+      computeCacheKey(input, backend, { mode: 'standard', hints: { points: [{ x: 1, y: 3 }] } }),
+    ]);
+
+    expect(new Set([key, ...variants]).size).toBe(5);
+  });
+
+  it('hashes mask blobs by content', async () => {
+    const withMask = (bytes: number[]) => computeCacheKey(input, backend, { hints: { mask: new Blob([new Uint8Array(bytes)]) } });
+
+    expect(await withMask([0, 255, 0])).toBe(await withMask([0, 255, 0]));
+    expect(await withMask([0, 255, 0])).not.toBe(await withMask([0, 0, 255]));
+  });
+});
@@ -0,0 +1,175 @@
+import type { AnimationInfo, ColorizationDiagnostics, ColorizationMode, ColorizationResult } from '../types';
+import { createDatabaseOpener, promisify, transactionDone } from '../utils/idb';
+
+export interface CachedResult {
+  /** Hex SHA-256 of the input bytes and everything else that shapes the output. */
+  key: string;
+  colorized: Blob;
+  width: number;
+  height: number;
+  backendId: string;
+  mode: ColorizationMode;
+  animation?: AnimationInfo;
+  diagnostics?: ColorizationDiagnostics;
+  sizeBytes: number;
+  /** Epoch milliseconds of the last hit or write; the least recently used entries go first. */
+  lastUsedAt: number;
+}
+
+// A database of its own: the cache is disposable and must not share schema upgrades with the history.
+const DB_NAME = 'bw-colorizer-cache';
+const DB_VERSION = 1;
+const STORE = 'results';
+const BY_LAST_USED = 'lastUsedAt';
+
+export const DEFAULT_CACHE_QUOTA_BYTES = 100 * 1024 * 1024;
+
+const openDatabase = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  const store = db.createObjectStore(STORE, { keyPath: 'key' });
+  store.createIndex(BY_LAST_USED, 'lastUsedAt');
+});
+
+/** JSON with sorted keys, so `{ a, b }` and `{ b, a }` hash the same. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** `value` with every Blob (a hint mask) replaced by the hash of its bytes; JSON would turn them all into `{}`. */
+async function hashBlobs(value: unknown): Promise<unknown> {
+  if (value instanceof Blob) return { sha256: await sha256Hex(await value.arrayBuffer()) };
+  if (Array.isArray(value)) return Promise.all(value.map(hashBlobs));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await hashBlobs(v)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+/**
+ * Content address of a colorization: SHA-256 over the input's bytes, the
+ * backend (and checkpoint, when known) and every option that changes the
+ * output. Renaming a file keeps its key; changing one hint point or stroke does not.
+ */
+export async function computeCacheKey(
+  input: Blob,
+  backend: { id: string; model?: string },
+  options: Record<string, unknown>
+): Promise<string> {
+  const params = new TextEncoder().encode(canonicalJson({ backend: backend.id, model: backend.model, options: await hashBlobs(options) }));
+  const bytes = new Uint8Array(await input.arrayBuffer());
+  const message = new Uint8Array(bytes.length + 1 + params.length);
+  message.set(bytes);
+  // Separator, so input and parameters can't run into each other.
+  message[bytes.length] = 0;
+  message.set(params, bytes.length + 1);
+  return sha256Hex(message);
+}
+
+/** The entry for `key`, marked as just used; null on a miss. */
+export async function getCachedResult(key: string): Promise<CachedResult | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  const entry = await promisify(store.get(key) as IDBRequest<CachedResult | undefined>);
+  if (!entry) return null;
+
+  const touched = { ...entry, lastUsedAt: Date.now() };
+  store.put(touched);
+  await transactionDone(tx);
+  return touched;
+}
+
+/**
+ * Deletes the least recently used entries until the stored total fits in
+ * `quotaBytes`. Returns the keys that were evicted.
+ */
+export async function enforceCacheQuota(quotaBytes: number): Promise<string[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index(BY_LAST_USED);
+  const entries = await promisify(index.getAll() as IDBRequest<CachedResult[]>);
+  let total = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const evicted: string[] = [];
+
+  for (const entry of entries) {
+    if (total <= quotaBytes) break;
+    total -= entry.sizeBytes;
+    evicted.push(entry.key);
+  }
+  if (evicted.length > 0) {
+    const tx = db.transaction(STORE, 'readwrite');
+    evicted.forEach(key => tx.objectStore(STORE).delete(key));
+    await transactionDone(tx);
+  }
+  return evicted;
+}
+
+/**
+ * Stores the output behind `result.colorizedUrl` under `key`. Only the output
+ * is kept: the original is whatever the caller hashed, so it is at hand on a hit.
+ * Results larger than the whole quota are not cached.
+ */
+export async function putCachedResult(
+  key: string,
+  result: ColorizationResult,
+  quotaBytes = DEFAULT_CACHE_QUOTA_BYTES
+): Promise<void> {
+  const colorized = await fetch(result.colorizedUrl).then(res => res.blob());
+  if (colorized.size > quotaBytes) return;
+
+  const entry: CachedResult = {
+    key,
+    colorized,
+    width: result.width,
+    height: result.height,
+    backendId: result.backendId,
+    mode: result.mode,
+    animation: result.animation,
+    diagnostics: result.diagnostics,
+    sizeBytes: colorized.size,
+    lastUsedAt: Date.now(),
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(entry);
+  await transactionDone(tx);
+
+  await enforceCacheQuota(quotaBytes);
+}
+
+export async function clearResultCache(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+}
+
+/** Turns a cache hit back into a result for `file`, the input that was hashed. */
+export function resultFromCache(file: File, entry: CachedResult): ColorizationResult {
+  return {
+    id: entry.key,
+    originalUrl: URL.createObjectURL(file),
+    colorizedUrl: URL.createObjectURL(entry.colorized),
+    fileName: file.name,
+    width: entry.width,
+    height: entry.height,
+    backendId: entry.backendId,
+    createdAt: Date.now(),
+    mode: entry.mode,
+    animation: entry.animation,
+    diagnostics: entry.diagnostics,
+    fromCache: true,
+  };
+}
@@ -0,0 +1,67 @@
+import type { ColorizationMode, ColorizationResult } from '../types';
+import { recombineFullResolution } from './fullResolution';
+import { computeDiagnostics } from './diagnostics';
+
+export const createResultId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Decodes just enough of `blob` to learn its pixel size; 0×0 if it can't be decoded. */
+export async function readImageSize(blob: Blob): Promise<{ width: number; height: number }> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return { width: 0, height: 0 };
+  }
+}
+
+export async function createColorizationResult(
+  file: File,
+  colorized: Blob,
+  backendId: string,
+  mode: ColorizationMode = 'server'
+): Promise<ColorizationResult> {
+  const [{ width, height }, diagnostics] = await Promise.all([
+    readImageSize(colorized),
+    // A failed analysis shouldn't cost the user the result itself.
+    computeDiagnostics(file, colorized).catch(e => {
+      console.warn('Could not analyze the result.', e);
+      return undefined;
+    }),
+  ]);
+  return {
+    id: createResultId(),
+    originalUrl: URL.createObjectURL(file),
+    colorizedUrl: URL.createObjectURL(colorized),
+    fileName: file.name,
+    width,
+    height,
+    backendId,
+    createdAt: Date.now(),
+    mode,
+    diagnostics,
+  };
+}
+
+/**
+ * Builds the result, upgrading it to full resolution when asked. If the
+ * recombination fails the server output is kept and `mode` says so.
+ */
+export async function finalizeColorization(
+  file: File,
+  colorized: Blob,
+  backendId: string,
+  options: { fullResolution?: boolean; signal?: AbortSignal } = {}
+): Promise<ColorizationResult> {
+  if (options.fullResolution) {
+    try {
+      const recombined = await recombineFullResolution(file, colorized, options.signal);
+      return createColorizationResult(file, recombined, backendId, 'full-resolution');
+    } catch (e) {
+      if (options.signal?.aborted) throw e;
+      console.warn('Falling back to the server-resolution output.', e);
+    }
+  }
+  return createColorizationResult(file, colorized, backendId);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { pseudoColorize } from './simulatedColorizer';
+import { srgbToL, srgbToLab } from '../utils/lab';
+
+const grayRamp = () => {
+  const data = new Uint8ClampedArray(256 * 4);
+  for (let v = 0; v < 256; v++) data.set([v, v, v, 255 - v], v * 4);
+  return data;
+};
+
+describe('pseudoColorize', () => {
+  it('keeps every pixel\'s lightness and alpha', () => {
+    const data = grayRamp();
+    pseudoColorize(data);
+
+    for (let v = 0; v < 256; v++) {
+      const p = v * 4;
+      expect(srgbToL(data[p], data[p + 1], data[p + 2])).toBeCloseTo(srgbToL(v, v, v), 0);
+      expect(data[p + 3]).toBe(255 - v);
+    }
+  });
+
+  it('tints mid-tones warm and shadows cool', () => {
+    const data = grayRamp();
+    pseudoColorize(data);
+    const lab = new Float32Array(3);
+
+    srgbToLab(data[128 * 4], data[128 * 4 + 1], data[128 * 4 + 2], lab);
+    expect(lab[2]).toBeGreaterThan(10);
+    srgbToLab(data[20 * 4], data[20 * 4 + 1], data[20 * 4 + 2], lab);
+    expect(lab[2]).toBeLessThan(0);
+  });
+
+  it('is deterministic', () => {
+    const first = grayRamp();
+    const second = grayRamp();
+    pseudoColorize(first);
+    pseudoColorize(second);
+    expect(first).toEqual(second);
+  });
+});
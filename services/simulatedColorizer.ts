@@ -0,0 +1,92 @@
+import { ColorizerClient, ColorizerStage, StageTimings, delay } from './colorizerClient';
+import { PIPELINE_STAGES } from './pipeline';
+import { labToSrgb, srgbToL } from '../utils/lab';
+
+/**
+ * Gradient map from lightness to a/b chroma: cool shadows, warm mid-tones,
+ * sepia highlights. Stops are [L, a, b] and must be sorted by L.
+ */
+const TINT_STOPS: [number, number, number][] = [
+  [0, 2, -10],
+  [30, 6, 6],
+  [55, 12, 22],
+  [80, 6, 20],
+  [100, 0, 4],
+];
+
+function tintFor(L: number): [number, number] {
+  for (let i = 1; i < TINT_STOPS.length; i++) {
+    const [l1, a1, b1] = TINT_STOPS[i];
+    if (L <= l1) {
+      const [l0, a0, b0] = TINT_STOPS[i - 1];
+      const t = (L - l0) / (l1 - l0);
+      return [a0 + (a1 - a0) * t, b0 + (b1 - b0) * t];
+    }
+  }
+  const [, a, b] = TINT_STOPS[TINT_STOPS.length - 1];
+  return [a, b];
+}
+
+/** Deterministic pseudo-colorization: keeps each pixel's L and adds the mapped tint. */
+export function pseudoColorize(data: Uint8ClampedArray): void {
+  const rgb = new Uint8ClampedArray(3);
+  for (let p = 0; p < data.length; p += 4) {
+    const L = srgbToL(data[p], data[p + 1], data[p + 2]);
+    const [a, b] = tintFor(L);
+    labToSrgb(L, a, b, rgb);
+    data[p] = rgb[0];
+    data[p + 1] = rgb[1];
+    data[p + 2] = rgb[2];
+  }
+}
+
+/**
+ * Offline client for demos and UI fixtures. Reports every stage in `stages`
+ * like a streaming backend (spaced by `stageDurationsMs`), followed by a timing
+ * report, and never touches the network. The image is decoded in the first
+ * stage, tinted three quarters of the way through and encoded in the last;
+ * without `stages` (or with an empty list) the built-in stages are used.
+ */
+export function createSimulatedColorizerClient(
+  options: { stages?: ColorizerStage[]; stageDurationsMs?: number[] } = {}
+): ColorizerClient {
+  const { stageDurationsMs = [] } = options;
+  // Decoding, tinting and encoding hang off the stages, so an empty list means the default ones.
+  const stages = options.stages?.length ? options.stages : PIPELINE_STAGES.map(stage => stage.key);
+  const tintStage = Math.floor((stages.length - 1) * 0.75);
+
+  return {
+    id: 'simulated',
+    async colorize(file, { signal, onStage, onTiming, onUploadProgress } = {}) {
+      onUploadProgress?.(1);
+      const timings: StageTimings = {};
+      let canvas: OffscreenCanvas;
+      let ctx: OffscreenCanvasRenderingContext2D;
+      let image: ImageData;
+      let blob: Blob;
+
+      for (let i = 0; i < stages.length; i++) {
+        onStage?.(stages[i]);
+        const started = performance.now();
+        if (i === 0) {
+          const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+          canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+          ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+          ctx.drawImage(bitmap, 0, 0);
+          bitmap.close();
+          image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        }
+        if (i === tintStage) pseudoColorize(image.data);
+        if (i === stages.length - 1) {
+          ctx.putImageData(image, 0, 0);
+          blob = await canvas.convertToBlob({ type: 'image/png' });
+        }
+        await delay(stageDurationsMs[i] ?? 0, signal);
+        timings[stages[i]] = (performance.now() - started) / 1000;
+      }
+
+      onTiming?.(timings);
+      return blob;
+    },
+  };
+}
@@ -0,0 +1,26 @@
+// Used by the <bw-colorizer> library build, whose shadow root can't see the
+// Tailwind CDN stylesheet the app loads in index.html. Keep the theme in sync.
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./components/**/*.tsx', './elements/**/*.tsx'],
+  theme: {
+    extend: {
+      colors: {
+        'navy': 'var(--navy)',
+        'light-navy': 'var(--light-navy)',
+        'lightest-navy': 'var(--lightest-navy)',
+        'slate': 'var(--slate)',
+        'light-slate': 'var(--light-slate)',
+        'lightest-slate': 'var(--lightest-slate)',
+        'canvas': 'rgb(var(--theme-canvas) / <alpha-value>)',
+        'surface': 'rgb(var(--theme-surface) / <alpha-value>)',
+        'fg': 'rgb(var(--theme-fg) / <alpha-value>)',
+        'fg-muted': 'rgb(var(--theme-fg-muted) / <alpha-value>)',
+        'accent': 'rgb(var(--theme-accent) / <alpha-value>)',
+        'accent-alt': 'rgb(var(--theme-accent-alt) / <alpha-value>)',
+        'on-accent': 'rgb(var(--theme-on-accent) / <alpha-value>)',
+        'accent-dark': 'var(--accent-dark)',
+      },
+    },
+  },
+};
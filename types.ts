@@ -0,0 +1,106 @@
+import type { ColorizerStage } from './services/colorizerClient';
+import type { Adjustments } from './utils/adjustments';
+
+/** 'confirming' waits for the user to decide what to do with a color input. */
+export type Status = 'idle' | 'hinting' | 'confirming' | 'uploading' | 'processing' | 'complete' | 'batch' | 'comparing' | 'error' | 'cancelled';
+
+export interface ProgressReport {
+  stageIndex: number;
+  stageName: string;
+  percent: number;
+  /** Set while an animation is colorized frame by frame; `index` is 1-based. */
+  frame?: { index: number; total: number };
+}
+
+export interface ColorizationResult {
+  /**
+   * Kept when the result is adjusted or re-run. With the result cache on it is
+   * the cache key, so the same input and settings always map to one id.
+   */
+  id: string;
+  originalUrl: string;
+  colorizedUrl: string;
+  fileName: string;
+  /** Pixel size of the colorized output. */
+  width: number;
+  height: number;
+  /** `ColorizerClient.id` of the backend that produced the result. */
+  backendId: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  /**
+   * `server`: the backend's output as-is. `full-resolution`: the original's
+   * full-resolution lightness recombined with the predicted chroma.
+   */
+  mode: ColorizationMode;
+  /** Set when the output was corrected in the adjustment editor. */
+  adjustments?: Adjustments;
+  /** The output before `adjustments`; adjusting again starts from it, so corrections never stack. */
+  unadjustedUrl?: string;
+  /** Set for animated inputs; `colorizedUrl` then points at an animated file too. */
+  animation?: AnimationInfo;
+  /** Served from the local result cache instead of the backend. */
+  fromCache?: boolean;
+  /** Chroma and lightness statistics of the output; missing for animations and when analysis failed. */
+  diagnostics?: ColorizationDiagnostics;
+}
+
+export type ColorizationMode = 'server' | 'full-resolution';
+
+/**
+ * `low-chroma`: the output is nearly gray (washed out). `luminance-shift`:
+ * its lightness drifted from the original's, which the model never changes
+ * on purpose and usually means a broken Lab denormalization.
+ */
+export type DiagnosticFlag = 'low-chroma' | 'luminance-shift';
+
+export interface ColorizationDiagnostics {
+  /** Share of sampled pixels per bin; `HISTOGRAM_BINS` equal bins over [-128, 128). */
+  histogramA: number[];
+  histogramB: number[];
+  /** Mean of sqrt(a² + b²) in Lab units. */
+  meanChroma: number;
+  /** Hasler–Süsstrunk colorfulness: 0 for gray, around 30 for muted and above 60 for vivid images. */
+  colorfulness: number;
+  /** Mean output L minus mean original L; near 0 when lightness is preserved. */
+  meanLuminanceShift: number;
+  /** Mean absolute per-pixel L difference between output and original. */
+  meanLuminanceError: number;
+  /** Mean chroma per region, row-major; `columns` × `rows` cells over the image. */
+  chromaGrid: { columns: number; rows: number; values: number[] };
+  flags: DiagnosticFlag[];
+}
+
+export interface AnimationInfo {
+  /** Container of the colorized file: GIF inputs stay GIF, everything else becomes APNG. */
+  format: 'gif' | 'apng';
+  frameCount: number;
+  /** Length of one loop. */
+  durationMs: number;
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  /** Last stage reported by a streaming backend while the item is processing. */
+  stage?: ColorizerStage;
+  result?: ColorizationResult;
+  error?: string;
+}
+
+/** One backend's run in compare mode; shares `BatchItemStatus` with batches. */
+export interface ComparisonEntry {
+  id: string;
+  /** Endpoint name as configured, e.g. "epoch 40". */
+  name: string;
+  backendId: string;
+  status: BatchItemStatus;
+  stage?: ColorizerStage;
+  /** Time from sending the request to receiving the colorized image. */
+  latencyMs?: number;
+  result?: ColorizationResult;
+  error?: string;
+}
@@ -0,0 +1,74 @@
+import { labToSrgb, srgbToL, srgbToLab } from './lab';
+
+/** Post-colorization corrections, all applied in Lab space. */
+export interface Adjustments {
+  /** Multiplier for a/b chroma; 0 is grayscale, 1 unchanged. */
+  chroma: number;
+  /** Rotation of the a/b plane in degrees. */
+  hue: number;
+  /** Shifts towards yellow/red (positive) or blue (negative). */
+  warmth: number;
+  aOffset: number;
+  bOffset: number;
+  /** Blend between the grayscale original (0) and the adjusted colorization (1). */
+  strength: number;
+}
+
+export const DEFAULT_ADJUSTMENTS: Adjustments = {
+  chroma: 1,
+  hue: 0,
+  warmth: 0,
+  aOffset: 0,
+  bOffset: 0,
+  strength: 1,
+};
+
+export const isDefaultAdjustments = (adj: Adjustments) =>
+  (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof Adjustments)[]).every(key => adj[key] === DEFAULT_ADJUSTMENTS[key]);
+
+/**
+ * Applies `adj` to `colorized` in place for rows [startRow, endRow).
+ * `original` must have the same size; its lightness is the grayscale end of the
+ * strength blend. Without it the colorized lightness is used.
+ */
+export function applyAdjustments(
+  colorized: ImageData,
+  original: ImageData | null,
+  adj: Adjustments,
+  startRow = 0,
+  endRow = colorized.height
+): void {
+  const { data, width } = colorized;
+  const source = original?.data;
+  const cos = Math.cos((adj.hue * Math.PI) / 180);
+  const sin = Math.sin((adj.hue * Math.PI) / 180);
+  // Warmth nudges a slightly and b strongly, like a white-balance slider.
+  const aShift = adj.aOffset + adj.warmth * 0.25;
+  const bShift = adj.bOffset + adj.warmth;
+  const lab = new Float32Array(3);
+  const rgb = new Uint8ClampedArray(3);
+
+  for (let p = startRow * width * 4, end = endRow * width * 4; p < end; p += 4) {
+    srgbToLab(data[p], data[p + 1], data[p + 2], lab);
+    const a = lab[1] * adj.chroma;
+    const b = lab[2] * adj.chroma;
+    labToSrgb(lab[0], a * cos - b * sin + aShift, a * sin + b * cos + bShift, rgb);
+
+    if (adj.strength < 1) {
+      const gray = source ? grayOf(source[p], source[p + 1], source[p + 2]) : grayOf(data[p], data[p + 1], data[p + 2]);
+      rgb[0] = gray + (rgb[0] - gray) * adj.strength;
+      rgb[1] = gray + (rgb[1] - gray) * adj.strength;
+      rgb[2] = gray + (rgb[2] - gray) * adj.strength;
+    }
+
+    data[p] = rgb[0];
+    data[p + 1] = rgb[1];
+    data[p + 2] = rgb[2];
+  }
+}
+
+const grayRgb = new Uint8ClampedArray(3);
+function grayOf(r: number, g: number, b: number): number {
+  labToSrgb(srgbToL(r, g, b), 0, 0, grayRgb);
+  return grayRgb[0];
+}
@@ -0,0 +1,220 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { EncodableFrame, encodeApng, encodeGif } from './animationEncoding';
+
+const COLORS: [number, number, number][] = [
+  [0, 0, 0], [255, 255, 255], [255, 0, 0], [0, 255, 0],
+  [0, 0, 255], [255, 255, 0], [0, 255, 255], [128, 64, 192],
+];
+
+/** `width * height` pixels cycling through `COLORS` in a scrambled order, so LZW finds few long runs. */
+function noisyFrame(width: number, height: number, seed: number, durationMs = 100): EncodableFrame {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = seed;
+  for (let p = 0; p < data.length; p += 4) {
+    state = (state * 1103515245 + 12345) >>> 0;
+    data.set([...COLORS[state >>> 29], 255], p);
+  }
+  return { data, durationMs };
+}
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+/** Minimal GIF reader for what `encodeGif` writes: global palette, optional loop extension, full-canvas frames. */
+function decodeGif(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const header = String.fromCharCode(...bytes.subarray(0, 6));
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const palette = bytes.subarray(13, 13 + 256 * 3);
+  let offset = 13 + 256 * 3;
+  let loops: number | null = null;
+  const frames: { delay: number, transparentIndex: number | null, rgba: Uint8Array }[] = [];
+  let pending = { delay: 0, transparentIndex: null as number | null };
+
+  const readSubBlocks = () => {
+    const parts: number[] = [];
+    for (let size = bytes[offset++]; size > 0; size = bytes[offset++]) {
+      parts.push(...bytes.subarray(offset, offset + size));
+      offset += size;
+    }
+    return Uint8Array.from(parts);
+  };
+
+  while (bytes[offset] !== 0x3b) {
+    const introducer = bytes[offset++];
+    if (introducer === 0x21) {
+      const label = bytes[offset++];
+      if (label === 0xff) {
+        // 'NETSCAPE2.0', then sub-block id 1 and the loop count.
+        const block = readSubBlocks();
+        expect(String.fromCharCode(...block.subarray(0, 11))).toBe('NETSCAPE2.0');
+        loops = block[12] | (block[13] << 8);
+      } else if (label === 0xf9) {
+        const block = readSubBlocks();
+        pending = { delay: block[1] | (block[2] << 8), transparentIndex: block[0] & 1 ? block[3] : null };
+      }
+    } else if (introducer === 0x2c) {
+      offset += 9;
+      const minCodeSize = bytes[offset++];
+      const indices = lzwDecode(readSubBlocks(), minCodeSize);
+      const rgba = new Uint8Array(indices.length * 4);
+      indices.forEach((index, i) => {
+        if (index === pending.transparentIndex) return;
+        rgba.set([...palette.subarray(index * 3, index * 3 + 3), 255], i * 4);
+      });
+      frames.push({ ...pending, rgba });
+    } else {
+      throw new Error(`Unexpected block 0x${introducer.toString(16)} at ${offset - 1}`);
+    }
+  }
+  return { header, width, height, loops, frames, trailerAt: offset };
+}
+
+/** Variable-width LZW as GIF readers implement it, independent of the encoder. */
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let dictionary: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bit = 0;
+
+  const reset = () => {
+    dictionary = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  const read = () => {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    return code;
+  };
+
+  reset();
+  while (bit + codeSize <= data.length * 8) {
+    const code = read();
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) return out;
+    let entry: number[];
+    if (code < dictionary.length) entry = dictionary[code];
+    else if (code === dictionary.length && previous) entry = [...previous, previous[0]];
+    else throw new Error(`Invalid code ${code}`);
+    out.push(...entry);
+    if (previous && dictionary.length < 4096) {
+      dictionary.push([...previous, entry[0]]);
+      if (dictionary.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+  throw new Error('LZW data ended without an end code');
+}
+
+interface PngChunk { type: string, data: Uint8Array }
+
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: PngChunk[] = [];
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    chunks.push({ type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)), data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/** Reverses filter type 2 (Up) on inflated scanlines. */
+function unfilterUp(filtered: Uint8Array, width: number, height: number): Uint8Array {
+  const stride = width * 4;
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    expect(filtered[y * (stride + 1)]).toBe(2);
+    for (let x = 0; x < stride; x++) {
+      const up = y > 0 ? out[(y - 1) * stride + x] : 0;
+      out[y * stride + x] = (filtered[y * (stride + 1) + 1 + x] + up) & 0xff;
+    }
+  }
+  return out;
+}
+
+describe('encodeGif', () => {
+  it('round-trips every frame through the palette and LZW, past the 4096-code dictionary reset', async () => {
+    const frames = [noisyFrame(200, 160, 1, 80), noisyFrame(200, 160, 2, 250)];
+    const gif = decodeGif(await bytesOf(encodeGif(frames, { width: 200, height: 160, plays: 0 })));
+
+    expect(gif.header).toBe('GIF89a');
+    expect([gif.width, gif.height]).toEqual([200, 160]);
+    expect(gif.frames).toHaveLength(2);
+    gif.frames.forEach((frame, i) => {
+      expect(frame.transparentIndex).toBeNull();
+      expect(frame.rgba).toEqual(new Uint8Array(frames[i].data));
+    });
+    expect(gif.frames.map(frame => frame.delay)).toEqual([8, 25]);
+  });
+
+  it('writes the loop count only for animations that repeat', async () => {
+    const frame = noisyFrame(4, 4, 3);
+    const forever = decodeGif(await bytesOf(encodeGif([frame, frame], { width: 4, height: 4, plays: 0 })));
+    const thrice = decodeGif(await bytesOf(encodeGif([frame, frame], { width: 4, height: 4, plays: 3 })));
+    const once = decodeGif(await bytesOf(encodeGif([frame, frame], { width: 4, height: 4, plays: 1 })));
+
+    expect(forever.loops).toBe(0);
+    expect(thrice.loops).toBe(2);
+    expect(once.loops).toBeNull();
+  });
+
+  it('gives transparent pixels their own palette index', async () => {
+    const frame = noisyFrame(8, 8, 4);
+    frame.data[3] = 0;
+    const gif = decodeGif(await bytesOf(encodeGif([frame], { width: 8, height: 8, plays: 1 })));
+    const [decoded] = gif.frames;
+
+    expect(decoded.transparentIndex).not.toBeNull();
+    expect(decoded.rgba.subarray(0, 4)).toEqual(new Uint8Array(4));
+    expect(decoded.rgba.subarray(4)).toEqual(new Uint8Array(frame.data.subarray(4)));
+  });
+
+  it('ends with the trailer', async () => {
+    const bytes = await bytesOf(encodeGif([noisyFrame(2, 2, 5)], { width: 2, height: 2, plays: 1 }));
+    expect(decodeGif(bytes).trailerAt).toBe(bytes.length - 1);
+  });
+});
+
+describe('encodeApng', () => {
+  it('writes acTL, one fcTL per frame and sequence numbers in order', async () => {
+    const frames = [noisyFrame(6, 5, 1, 40), noisyFrame(6, 5, 2, 120), noisyFrame(6, 5, 3, 70)];
+    const blob = await encodeApng(frames, { width: 6, height: 5, plays: 2 });
+    const chunks = readPngChunks(await bytesOf(blob));
+
+    expect(blob.type).toBe('image/png');
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'fcTL', 'fdAT', 'IEND']);
+
+    const acTL = new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset);
+    expect([acTL.getUint32(0), acTL.getUint32(4)]).toEqual([3, 2]);
+
+    const sequence = chunks
+      .filter(chunk => chunk.type === 'fcTL' || chunk.type === 'fdAT')
+      .map(chunk => new DataView(chunk.data.buffer, chunk.data.byteOffset).getUint32(0));
+    expect(sequence).toEqual([0, 1, 2, 3, 4]);
+
+    const delays = chunks
+      .filter(chunk => chunk.type === 'fcTL')
+      .map(chunk => new DataView(chunk.data.buffer, chunk.data.byteOffset))
+      .map(view => [view.getUint16(20), view.getUint16(22)]);
+    expect(delays).toEqual([[40, 1000], [120, 1000], [70, 1000]]);
+  });
+
+  it('stores every frame losslessly', async () => {
+    const frames = [noisyFrame(7, 3, 1), noisyFrame(7, 3, 2)];
+    const chunks = readPngChunks(await bytesOf(await encodeApng(frames, { width: 7, height: 3, plays: 0 })));
+    const idat = chunks.find(chunk => chunk.type === 'IDAT')!.data;
+    const fdat = chunks.find(chunk => chunk.type === 'fdAT')!.data.subarray(4);
+
+    expect(unfilterUp(inflateSync(idat), 7, 3)).toEqual(new Uint8Array(frames[0].data));
+    expect(unfilterUp(inflateSync(fdat), 7, 3)).toEqual(new Uint8Array(frames[1].data));
+  });
+});
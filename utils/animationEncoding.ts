@@ -0,0 +1,302 @@
+// Encoders for colorized animations. GIF inputs go back out as GIF (one
+// median-cut palette shared by all frames, so colors don't shimmer between
+// frames); everything else becomes an APNG, which keeps full 24-bit color.
+import { concat, pngChunk } from './imageMetadata';
+
+export interface EncodableFrame {
+  /** RGBA pixels of the whole canvas, `width * height * 4` bytes. */
+  data: Uint8ClampedArray;
+  durationMs: number;
+}
+
+export interface AnimationEncodeOptions {
+  width: number;
+  height: number;
+  /** How many times the animation plays; 0 loops forever. */
+  plays: number;
+}
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+// --- GIF -------------------------------------------------------------------
+
+/** Pixels sampled across all frames to build the palette. */
+const PALETTE_SAMPLES = 1 << 16;
+const MAX_LZW_CODE = 4096;
+const GIF_SUB_BLOCK = 255;
+
+interface PaletteResult {
+  /** RGB triplets, padded to 256 entries. */
+  colors: Uint8Array;
+  /** Palette index used for transparent pixels, or -1. */
+  transparentIndex: number;
+}
+
+function buildPalette(frames: EncodableFrame[]): PaletteResult {
+  const pixelsPerFrame = frames[0].data.length / 4;
+  const step = Math.max(1, Math.floor((pixelsPerFrame * frames.length) / PALETTE_SAMPLES));
+  const samples: number[] = [];
+  let hasTransparency = false;
+
+  for (let n = 0; n < pixelsPerFrame * frames.length; n += step) {
+    const data = frames[Math.floor(n / pixelsPerFrame)].data;
+    const p = (n % pixelsPerFrame) * 4;
+    if (data[p + 3] < 128) hasTransparency = true;
+    else samples.push((data[p] << 16) | (data[p + 1] << 8) | data[p + 2]);
+  }
+  if (samples.length === 0) samples.push(0);
+
+  // Median cut: keep splitting the box with the widest channel range at its median.
+  const packed = Uint32Array.from(samples);
+  const maxColors = hasTransparency ? 255 : 256;
+  const channel = (value: number, shift: number) => (value >> shift) & 0xff;
+  const boxes: { start: number, end: number, shift: number, range: number }[] = [];
+
+  const measure = (start: number, end: number) => {
+    let best = { shift: 16, range: -1 };
+    for (const shift of [16, 8, 0]) {
+      let min = 255;
+      let max = 0;
+      for (let i = start; i < end; i++) {
+        const v = channel(packed[i], shift);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      if (max - min > best.range) best = { shift, range: max - min };
+    }
+    boxes.push({ start, end, ...best });
+  };
+
+  measure(0, packed.length);
+  while (boxes.length < maxColors) {
+    let widest = -1;
+    boxes.forEach((box, i) => {
+      if (box.end - box.start > 1 && box.range > 0 && (widest < 0 || box.range > boxes[widest].range)) widest = i;
+    });
+    if (widest < 0) break;
+    const { start, end, shift } = boxes.splice(widest, 1)[0];
+    packed.subarray(start, end).sort((x, y) => channel(x, shift) - channel(y, shift));
+    const middle = start + ((end - start) >> 1);
+    measure(start, middle);
+    measure(middle, end);
+  }
+
+  const colors = new Uint8Array(256 * 3);
+  boxes.forEach((box, i) => {
+    let r = 0, g = 0, b = 0;
+    for (let j = box.start; j < box.end; j++) {
+      r += channel(packed[j], 16);
+      g += channel(packed[j], 8);
+      b += channel(packed[j], 0);
+    }
+    const count = box.end - box.start;
+    colors.set([Math.round(r / count), Math.round(g / count), Math.round(b / count)], i * 3);
+  });
+
+  return { colors, transparentIndex: hasTransparency ? boxes.length : -1 };
+}
+
+/** Maps RGBA pixels to palette indices, memoising nearest colors per 15-bit bucket. */
+function createIndexer({ colors, transparentIndex }: PaletteResult) {
+  const paletteSize = transparentIndex >= 0 ? transparentIndex : 256;
+  const cache = new Int16Array(1 << 15).fill(-1);
+
+  const nearest = (r: number, g: number, b: number) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < paletteSize; i++) {
+      const dr = colors[i * 3] - r;
+      const dg = colors[i * 3 + 1] - g;
+      const db = colors[i * 3 + 2] - b;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    return best;
+  };
+
+  return (data: Uint8ClampedArray): Uint8Array => {
+    const indices = new Uint8Array(data.length / 4);
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      if (transparentIndex >= 0 && data[p + 3] < 128) {
+        indices[i] = transparentIndex;
+        continue;
+      }
+      const key = ((data[p] >> 3) << 10) | ((data[p + 1] >> 3) << 5) | (data[p + 2] >> 3);
+      if (cache[key] < 0) cache[key] = nearest((data[p] & 0xf8) | 4, (data[p + 1] & 0xf8) | 4, (data[p + 2] & 0xf8) | 4);
+      indices[i] = cache[key];
+    }
+    return indices;
+  };
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let out = new Uint8Array(Math.max(256, indices.length >> 1));
+  let length = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const pushByte = (byte: number) => {
+    if (length === out.length) {
+      const grown = new Uint8Array(out.length * 2);
+      grown.set(out);
+      out = grown;
+    }
+    out[length++] = byte;
+  };
+  const write = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      pushByte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const dictionary = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  write(clearCode, codeSize);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix, codeSize);
+    if (nextCode === MAX_LZW_CODE) {
+      write(clearCode, codeSize);
+      dictionary.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  write(prefix, codeSize);
+  // Readers add one more entry after the last code, which can widen the end code.
+  if (nextCode === 1 << codeSize && nextCode < MAX_LZW_CODE) codeSize++;
+  write(endCode, codeSize);
+  if (bitCount > 0) pushByte(bitBuffer & 0xff);
+  return out.subarray(0, length);
+}
+
+function subBlocks(data: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += GIF_SUB_BLOCK) {
+    const block = data.subarray(offset, offset + GIF_SUB_BLOCK);
+    parts.push(new Uint8Array([block.length]), block);
+  }
+  parts.push(new Uint8Array([0]));
+  return concat(parts);
+}
+
+const u16 = (value: number) => new Uint8Array([value & 0xff, (value >> 8) & 0xff]);
+
+export function encodeGif(frames: EncodableFrame[], { width, height, plays }: AnimationEncodeOptions): Blob {
+  const palette = buildPalette(frames);
+  const toIndices = createIndexer(palette);
+  const transparent = palette.transparentIndex >= 0;
+
+  const parts: Uint8Array[] = [
+    latin1('GIF89a'),
+    u16(width),
+    u16(height),
+    // Global color table present, 8 bits per channel, 256 entries.
+    new Uint8Array([0xf7, 0, 0]),
+    palette.colors,
+  ];
+  if (plays !== 1) {
+    parts.push(
+      new Uint8Array([0x21, 0xff, 0x0b]),
+      latin1('NETSCAPE2.0'),
+      new Uint8Array([0x03, 0x01]),
+      u16(plays === 0 ? 0 : plays - 1),
+      new Uint8Array([0])
+    );
+  }
+
+  for (const frame of frames) {
+    // Frames are full canvases: with transparency the previous frame must be cleared, not kept.
+    const disposal = transparent ? 2 : 1;
+    parts.push(
+      new Uint8Array([0x21, 0xf9, 0x04, (disposal << 2) | (transparent ? 1 : 0)]),
+      u16(Math.max(2, Math.round(frame.durationMs / 10))),
+      new Uint8Array([transparent ? palette.transparentIndex : 0, 0]),
+      new Uint8Array([0x2c]),
+      u16(0),
+      u16(0),
+      u16(width),
+      u16(height),
+      new Uint8Array([0, 8]),
+      subBlocks(lzwEncode(toIndices(frame.data), 8))
+    );
+  }
+  parts.push(new Uint8Array([0x3b]));
+  return new Blob([concat(parts)], { type: 'image/gif' });
+}
+
+// --- APNG ------------------------------------------------------------------
+
+const APNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** RGBA scanlines with PNG filter type 2 (Up): cheap, and frames are mostly smooth. */
+function filterScanlines(data: Uint8ClampedArray, width: number, height: number): Uint8Array {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    out[row] = 2;
+    for (let x = 0; x < stride; x++) {
+      const i = y * stride + x;
+      out[row + 1 + x] = (data[i] - (y > 0 ? data[i - stride] : 0)) & 0xff;
+    }
+  }
+  return out;
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+}
+
+export async function encodeApng(frames: EncodableFrame[], { width, height, plays }: AnimationEncodeOptions): Promise<Blob> {
+  // 8-bit RGBA, no interlacing.
+  const ihdr = concat([uint32s(width, height), new Uint8Array([8, 6, 0, 0, 0])]);
+  const parts: Uint8Array[] = [APNG_SIGNATURE, pngChunk('IHDR', ihdr), pngChunk('acTL', uint32s(frames.length, plays))];
+  let sequence = 0;
+
+  for (let i = 0; i < frames.length; i++) {
+    const fctl = new Uint8Array(26);
+    const view = new DataView(fctl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    // x/y offsets stay 0; delay is a fraction in milliseconds; dispose/blend ops stay 0 (none/source).
+    view.setUint16(20, Math.min(0xffff, Math.round(frames[i].durationMs)));
+    view.setUint16(22, 1000);
+    parts.push(pngChunk('fcTL', fctl));
+
+    const compressed = await deflate(filterScanlines(frames[i].data, width, height));
+    parts.push(i === 0 ? pngChunk('IDAT', compressed) : pngChunk('fdAT', concat([uint32s(sequence++), compressed])));
+  }
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return new Blob([concat(parts)], { type: 'image/png' });
+}
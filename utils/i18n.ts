@@ -0,0 +1,119 @@
+import { createContext, useContext } from 'react';
+import { en } from '../locales/en';
+import { de } from '../locales/de';
+import { ja } from '../locales/ja';
+import { PIPELINE_STAGES, PipelineStage } from '../services/pipeline';
+import { ColorizerError } from '../services/colorizerClient';
+import { ImageRejectedError, ImageRejectionReason } from '../services/preprocess';
+import { ImageImportError, ImageImportFailure } from '../services/imageSources';
+import { HistoryQuotaError } from '../services/historyStore';
+
+/**
+ * A catalog entry: plain text with `{name}` placeholders, or one text per
+ * plural category (`other` is required) chosen by the `count` parameter.
+ */
+export type Message = string | (Partial<Record<Intl.LDMLPluralRule, string>> & { other: string });
+
+export type MessageKey = keyof typeof en;
+export type MessageCatalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export type Locale = 'en' | 'de' | 'ja';
+
+export const CATALOGS: Record<Locale, MessageCatalog> = { en, de, ja };
+export const SUPPORTED_LOCALES = Object.keys(CATALOGS) as Locale[];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  locale: Locale;
+}
+
+/** The supported locale for a BCP 47 tag such as "de-AT" or "ja-JP"; null when there is none. */
+export function matchLocale(tag: string | null | undefined): Locale | null {
+  const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find(locale => locale === language) ?? null;
+}
+
+/** First of the browser's preferred languages that has a catalog, else English. */
+export function detectLocale(preferred: readonly string[] = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language]): Locale {
+  for (const tag of preferred) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** An explicit locale wins when it is supported; anything else falls back to detection. */
+export const resolveLocale = (locale?: string | null): Locale => matchLocale(locale) ?? detectLocale();
+
+export function createTranslator(locale: Locale): Translator {
+  const catalog = CATALOGS[locale];
+  const plurals = new Intl.PluralRules(locale);
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message = catalog[key] ?? en[key];
+    const text = typeof message === 'string'
+      ? message
+      : message[plurals.select(Number(params.count ?? 0))] ?? message.other;
+    return text.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+  };
+  return Object.assign(t, { locale });
+}
+
+/**
+ * Display name of a stage. Built-in stages are translated; stages a host
+ * renamed or added keep the name it gave them.
+ */
+export function stageLabel(stage: PipelineStage, t: Translator): string {
+  const builtIn = PIPELINE_STAGES.find(candidate => candidate.key === stage.key);
+  return builtIn && builtIn.name === stage.name ? t(`stage.${stage.key}` as MessageKey) : stage.name;
+}
+
+const REJECTION_MESSAGES: Record<ImageRejectionReason, MessageKey> = {
+  'unsupported-type': 'errors.unsupportedType',
+  'file-too-large': 'errors.fileTooLarge',
+  'unreadable': 'errors.unreadable',
+  'too-many-pixels': 'errors.tooManyPixels',
+};
+
+const IMPORT_MESSAGES: Record<ImageImportFailure, MessageKey> = {
+  'invalid-url': 'errors.invalidUrl',
+  'unsupported-protocol': 'errors.unsupportedProtocol',
+  'http-status': 'errors.importStatus',
+  'cross-origin': 'errors.crossOrigin',
+  'not-an-image': 'errors.notAnImage',
+};
+
+/**
+ * A user-facing message for `error` in the translator's language. Backend,
+ * validation, import and history errors are rebuilt from their fields;
+ * anything else keeps its own message.
+ */
+export function describeError(error: Error, t: Translator): string {
+  if (error instanceof ImageRejectedError) {
+    const key = error.reason === 'unsupported-type' && !error.params.type ? 'errors.unknownType' : REJECTION_MESSAGES[error.reason];
+    return t(key, error.params);
+  }
+  if (error instanceof ImageImportError) {
+    const key = error.reason === 'not-an-image' && !error.params.type ? 'errors.notAnImageUnknown' : IMPORT_MESSAGES[error.reason];
+    return t(key, error.params);
+  }
+  if (error instanceof HistoryQuotaError) return t('errors.historyQuota', { name: error.fileName });
+  if (error instanceof ColorizerError) {
+    const url = error.backendUrl;
+    switch (error.kind) {
+      case 'network': return url ? t('errors.network', { url }) : t('errors.networkUnknown');
+      case 'timeout': return url ? t('errors.timeout', { url }) : t('errors.timeoutUnknown');
+      case 'http': return error.detail ? t('errors.http', { status: error.status ?? '', detail: error.detail }) : t('errors.httpUnknown', { status: error.status ?? '' });
+      case 'protocol': return t('errors.protocol');
+      case 'server': return t('errors.server', { detail: error.detail ?? '' });
+    }
+  }
+  return error.message;
+}
+
+export const LocaleContext = createContext<Translator>(createTranslator(detectLocale()));
+
+/** The translator of the nearest `LocaleContext`; the browser's language outside of one. */
+export const useTranslation = () => useContext(LocaleContext);
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { ProvenanceMetadata, buildXmpPacket, concat, embedProvenance, pngChunk } from './imageMetadata';
+
+const META: ProvenanceMetadata = {
+  sourceFileName: 'grand"mère <1920>.jpg',
+  createdAt: '2024-05-01T12:00:00.000Z',
+  colorized: true,
+  backendId: 'https://colorizer.example',
+  extra: { mode: 'full-resolution' },
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+const utf8 = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('pngChunk', () => {
+  it('writes length, type, data and the CRC over type and data', () => {
+    // The IEND chunk is the same in every PNG file.
+    expect(pngChunk('IEND', new Uint8Array(0))).toEqual(new Uint8Array([0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82]));
+  });
+});
+
+describe('buildXmpPacket', () => {
+  it('escapes the file name and includes the extras', () => {
+    const xmp = buildXmpPacket(META);
+    expect(xmp).toContain('bwc:SourceFile="grand&quot;mère &lt;1920&gt;.jpg"');
+    expect(xmp).toContain('bwc:mode="full-resolution"');
+    expect(xmp).toContain('bwc:Colorized="True"');
+  });
+});
+
+describe('embedProvenance', () => {
+  it('inserts the text chunks right after IHDR of a PNG', async () => {
+    const ihdr = pngChunk('IHDR', new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]));
+    const idat = pngChunk('IDAT', new Uint8Array([1, 2, 3]));
+    const iend = pngChunk('IEND', new Uint8Array(0));
+    const png = concat([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ihdr, idat, iend]);
+
+    const tagged = await bytesOf(await embedProvenance(new Blob([png], { type: 'image/png' }), META, 1, 1));
+    const view = new DataView(tagged.buffer);
+    const chunks: { type: string, data: Uint8Array, raw: Uint8Array }[] = [];
+    for (let offset = 8; offset < tagged.length;) {
+      const length = view.getUint32(offset);
+      const type = ascii(tagged.subarray(offset + 4, offset + 8));
+      chunks.push({ type, data: tagged.subarray(offset + 8, offset + 8 + length), raw: tagged.subarray(offset, offset + 12 + length) });
+      offset += 12 + length;
+    }
+
+    expect(tagged.subarray(0, 8)).toEqual(png.subarray(0, 8));
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'iTXt', 'tEXt', 'tEXt', 'iTXt', 'IDAT', 'IEND']);
+    // Every chunk, old and new, carries a valid CRC.
+    chunks.forEach(chunk => expect(chunk.raw).toEqual(pngChunk(chunk.type, chunk.data)));
+
+    const xmp = chunks[1].data;
+    expect(ascii(xmp.subarray(0, 18))).toBe('XML:com.adobe.xmp\0');
+    expect(utf8(xmp.subarray(22))).toBe(buildXmpPacket(META));
+    expect(utf8(chunks[4].data)).toContain('grand"mère <1920>.jpg');
+  });
+
+  it('keeps the JFIF segment first in a JPEG and adds XMP and a comment after it', async () => {
+    const app0 = concat([new Uint8Array([0xff, 0xe0, 0, 16]), latin1('JFIF\0'), new Uint8Array(9)]);
+    const jpeg = concat([new Uint8Array([0xff, 0xd8]), app0, new Uint8Array([0xff, 0xda, 0, 2, 0xff, 0xd9])]);
+
+    const tagged = await bytesOf(await embedProvenance(new Blob([jpeg], { type: 'image/jpeg' }), META, 1, 1));
+    const segments: { marker: number, payload: Uint8Array }[] = [];
+    let offset = 2;
+    while (tagged[offset + 1] !== 0xda) {
+      const length = (tagged[offset + 2] << 8) | tagged[offset + 3];
+      segments.push({ marker: tagged[offset + 1], payload: tagged.subarray(offset + 4, offset + 2 + length) });
+      offset += 2 + length;
+    }
+
+    expect(segments.map(segment => segment.marker)).toEqual([0xe0, 0xe1, 0xfe]);
+    expect(ascii(segments[1].payload.subarray(0, 29))).toBe('http://ns.adobe.com/xap/1.0/\0');
+    expect(utf8(segments[1].payload.subarray(29))).toBe(buildXmpPacket(META));
+    expect(utf8(segments[2].payload)).toContain('by https://colorizer.example');
+    expect(tagged.subarray(offset)).toEqual(jpeg.subarray(2 + app0.length));
+  });
+
+  it('inserts the JPEG segments right after SOI when there is no JFIF segment', async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xdb, 0, 2, 0xff, 0xd9]);
+    const tagged = await bytesOf(await embedProvenance(new Blob([jpeg], { type: 'image/jpeg' }), META, 1, 1));
+
+    expect(tagged.subarray(0, 4)).toEqual(new Uint8Array([0xff, 0xd8, 0xff, 0xe1]));
+    expect(tagged.subarray(tagged.length - 6)).toEqual(jpeg.subarray(2));
+  });
+
+  const riff = (...chunks: Uint8Array[]) => {
+    const out = concat([latin1('RIFF'), new Uint8Array(4), latin1('WEBP'), ...chunks]);
+    new DataView(out.buffer).setUint32(4, out.length - 8, true);
+    return out;
+  };
+  const riffChunk = (fourcc: string, data: Uint8Array) => {
+    const chunk = concat([latin1(fourcc), new Uint8Array(4), data, new Uint8Array(data.length & 1)]);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    return chunk;
+  };
+  const readRiff = (bytes: Uint8Array) => {
+    const view = new DataView(bytes.buffer);
+    const chunks: { fourcc: string, data: Uint8Array }[] = [];
+    for (let offset = 12; offset < bytes.length;) {
+      const size = view.getUint32(offset + 4, true);
+      chunks.push({ fourcc: ascii(bytes.subarray(offset, offset + 4)), data: bytes.subarray(offset + 8, offset + 8 + size) });
+      offset += 8 + size + (size & 1);
+    }
+    return { size: view.getUint32(4, true), chunks };
+  };
+
+  it('promotes a simple WebP to the extended format to carry XMP', async () => {
+    const vp8 = riffChunk('VP8 ', new Uint8Array([1, 2, 3, 4, 5]));
+    const tagged = await bytesOf(await embedProvenance(new Blob([riff(vp8)], { type: 'image/webp' }), META, 640, 70000));
+    const { size, chunks } = readRiff(tagged);
+
+    expect(size).toBe(tagged.length - 8);
+    expect(chunks.map(chunk => chunk.fourcc)).toEqual(['VP8X', 'VP8 ', 'XMP ']);
+    const vp8x = chunks[0].data;
+    expect(vp8x[0]).toBe(0x04);
+    // Canvas width and height minus one, 24-bit little-endian.
+    expect(vp8x[4] | (vp8x[5] << 8) | (vp8x[6] << 16)).toBe(639);
+    expect(vp8x[7] | (vp8x[8] << 8) | (vp8x[9] << 16)).toBe(69999);
+    expect(chunks[1].data).toEqual(new Uint8Array([1, 2, 3, 4, 5]));
+    expect(utf8(chunks[2].data)).toBe(buildXmpPacket(META));
+  });
+
+  it('sets the XMP flag of an extended WebP and keeps its other flags', async () => {
+    const flags = new Uint8Array(10);
+    flags[0] = 0x10;
+    const webp = riff(riffChunk('VP8X', flags), riffChunk('VP8L', new Uint8Array([9, 9])));
+    const tagged = await bytesOf(await embedProvenance(new Blob([webp], { type: 'image/webp' }), META, 1, 1));
+    const { chunks } = readRiff(tagged);
+
+    expect(chunks.map(chunk => chunk.fourcc)).toEqual(['VP8X', 'VP8L', 'XMP ']);
+    expect(chunks[0].data[0]).toBe(0x14);
+  });
+
+  it('rejects formats it cannot tag', async () => {
+    await expect(embedProvenance(new Blob([new Uint8Array(4)], { type: 'image/gif' }), META, 1, 1)).rejects.toThrow('image/gif');
+  });
+});
@@ -0,0 +1,64 @@
+// sRGB <-> CIE Lab (D65) conversions matching OpenCV's float ranges:
+// L in [0, 100], a/b roughly in [-128, 127]. Channel inputs/outputs are 0-255.
+
+const XN = 0.95047;
+const YN = 1.0;
+const ZN = 1.08883;
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+const SRGB_TO_LINEAR = new Float32Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+const LINEAR_LUT_SIZE = 4096;
+const LINEAR_TO_SRGB = new Uint8ClampedArray(LINEAR_LUT_SIZE + 1);
+for (let i = 0; i <= LINEAR_LUT_SIZE; i++) {
+  const c = i / LINEAR_LUT_SIZE;
+  const v = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  LINEAR_TO_SRGB[i] = Math.round(v * 255);
+}
+
+const f = (t: number) => (t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116);
+const fInv = (t: number) => {
+  const t3 = t * t * t;
+  return t3 > EPSILON ? t3 : (116 * t - 16) / KAPPA;
+};
+
+const toSrgb8 = (linear: number) => {
+  if (linear <= 0) return 0;
+  if (linear >= 1) return 255;
+  return LINEAR_TO_SRGB[Math.round(linear * LINEAR_LUT_SIZE)];
+};
+
+/** Lightness only; cheaper than a full conversion when a/b aren't needed. */
+export function srgbToL(r: number, g: number, b: number): number {
+  const y = 0.2126729 * SRGB_TO_LINEAR[r] + 0.7151522 * SRGB_TO_LINEAR[g] + 0.072175 * SRGB_TO_LINEAR[b];
+  return 116 * f(y / YN) - 16;
+}
+
+/** Writes [L, a, b] into `out` at `offset`. */
+export function srgbToLab(r: number, g: number, b: number, out: Float32Array | number[], offset = 0): void {
+  const lr = SRGB_TO_LINEAR[r];
+  const lg = SRGB_TO_LINEAR[g];
+  const lb = SRGB_TO_LINEAR[b];
+  const fx = f((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / XN);
+  const fy = f((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / YN);
+  const fz = f((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / ZN);
+  out[offset] = 116 * fy - 16;
+  out[offset + 1] = 500 * (fx - fy);
+  out[offset + 2] = 200 * (fy - fz);
+}
+
+/** Writes clamped 8-bit [r, g, b] into `out` at `offset`. */
+export function labToSrgb(L: number, a: number, b: number, out: Uint8ClampedArray | number[], offset = 0): void {
+  const fy = (L + 16) / 116;
+  const x = XN * fInv(fy + a / 500);
+  const y = YN * fInv(fy);
+  const z = ZN * fInv(fy - b / 200);
+  out[offset] = toSrgb8(3.2404542 * x - 1.5371385 * y - 0.4985314 * z);
+  out[offset + 1] = toSrgb8(-0.969266 * x + 1.8760108 * y + 0.041556 * z);
+  out[offset + 2] = toSrgb8(0.0556434 * x - 0.2040259 * y + 1.0572252 * z);
+}
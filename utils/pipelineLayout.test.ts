@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { computePipelineLayout, splitLabel } from './pipelineLayout';
+
+describe('computePipelineLayout', () => {
+  it('zigzags horizontally when every stage gets enough room', () => {
+    const layout = computePipelineLayout(5, 1000);
+
+    expect(layout.orientation).toBe('horizontal');
+    expect(layout.viewBox).toBe('0 0 1000 270');
+    expect(layout.nodes.map(node => node.cx)).toEqual([100, 300, 500, 700, 900]);
+    expect(layout.nodes.map(node => node.cy)).toEqual([130, 70, 190, 70, 130]);
+    expect(layout.nodes.map(node => node.labelPosition)).toEqual(['below', 'above', 'below', 'above', 'below']);
+    expect(layout.path.startsWith('M 100 130 ')).toBe(true);
+    expect(layout.path.match(/C /g)).toHaveLength(4);
+  });
+
+  it('turns vertical on narrow containers and grows with the stage count', () => {
+    const layout = computePipelineLayout(5, 320);
+
+    expect(layout.orientation).toBe('vertical');
+    expect(layout.height).toBe(40 * 2 + 4 * 75);
+    expect(layout.nodes.every(node => node.labelPosition === 'right')).toBe(true);
+    expect(layout.nodes.map(node => node.cy)).toEqual([40, 115, 190, 265, 340]);
+    expect(computePipelineLayout(8, 320).height).toBeGreaterThan(layout.height);
+  });
+
+  it('handles any number of stages', () => {
+    for (const count of [1, 2, 3, 7, 12]) {
+      for (const width of [240, 1200]) {
+        const layout = computePipelineLayout(count, width);
+        expect(layout.nodes).toHaveLength(count);
+        expect(layout.path.match(/C /g) ?? []).toHaveLength(count - 1);
+        layout.nodes.forEach(node => {
+          expect(node.cx).toBeGreaterThanOrEqual(0);
+          expect(node.cx).toBeLessThanOrEqual(width);
+          expect(node.cy).toBeLessThanOrEqual(layout.height);
+        });
+      }
+    }
+  });
+
+  it('has no nodes and an empty path without stages', () => {
+    for (const count of [0, -1]) {
+      const layout = computePipelineLayout(count, 800);
+      expect(layout.nodes).toEqual([]);
+      expect(layout.path).toBe('');
+    }
+  });
+});
+
+describe('splitLabel', () => {
+  it('keeps labels that fit on one line', () => {
+    expect(splitLabel('Encoder', 200, 14)).toEqual(['Encoder']);
+  });
+
+  it('breaks Latin text at the space that balances the lines best', () => {
+    expect(splitLabel('Lab color space conversion', 120, 14)).toEqual(['Lab color space', 'conversion']);
+    expect(splitLabel('Feature-extraction', 60, 14)).toEqual(['Feature-', 'extraction']);
+  });
+
+  it('breaks CJK text between characters but not before small kana or punctuation', () => {
+    const [line1, line2] = splitLabel('エンコーダーで特徴を抽出', 100, 14);
+    expect(line1 + line2).toBe('エンコーダーで特徴を抽出');
+    expect(line2.startsWith('ー')).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Geometry of the pipeline animation for any number of stages. Coordinates are
+ * CSS pixels: the SVG's viewBox is `0 0 width height`, so labels keep their
+ * size at every container width.
+ */
+export type PipelineOrientation = 'horizontal' | 'vertical';
+
+export interface PipelineNodeLayout {
+  cx: number;
+  cy: number;
+  /** Anchor point of the label's first line. */
+  labelX: number;
+  labelY: number;
+  /** 'above' labels grow upwards and 'right' ones around `labelY` when they wrap. */
+  labelPosition: 'above' | 'below' | 'right';
+  labelMaxWidth: number;
+}
+
+export interface PipelineLayout {
+  orientation: PipelineOrientation;
+  width: number;
+  height: number;
+  viewBox: string;
+  /** One smooth curve through every node, in stage order. */
+  path: string;
+  nodes: PipelineNodeLayout[];
+  fontSize: number;
+}
+
+/** Below this much room per stage the pipeline turns vertical. */
+const MIN_NODE_SPACING = 100;
+
+const ROW_TOP = 70;
+const ROW_MIDDLE = 130;
+const ROW_BOTTOM = 190;
+const HORIZONTAL_HEIGHT = 270;
+
+const VERTICAL_PADDING = 40;
+const VERTICAL_STEP = 75;
+const VERTICAL_LEFT = 40;
+
+function curveThrough(nodes: { cx: number; cy: number }[], orientation: PipelineOrientation): string {
+  if (nodes.length === 0) return '';
+  const segments = [`M ${nodes[0].cx} ${nodes[0].cy}`];
+  for (let i = 1; i < nodes.length; i++) {
+    const { cx: x0, cy: y0 } = nodes[i - 1];
+    const { cx: x1, cy: y1 } = nodes[i];
+    // Tangents run along the direction of travel, so every node sits on a flat stretch.
+    segments.push(orientation === 'horizontal'
+      ? `C ${(x0 + x1) / 2} ${y0} ${(x0 + x1) / 2} ${y1} ${x1} ${y1}`
+      : `C ${x0} ${(y0 + y1) / 2} ${x1} ${(y0 + y1) / 2} ${x1} ${y1}`);
+  }
+  return segments.join(' ');
+}
+
+/**
+ * Zigzag across the width when every stage gets at least `MIN_NODE_SPACING`
+ * pixels (first and last node on the middle row, the rest alternating between
+ * top and bottom), otherwise a vertical zigzag with labels to the right.
+ */
+export function computePipelineLayout(stageCount: number, width: number): PipelineLayout {
+  const count = Math.max(stageCount, 0);
+  const spacing = count > 0 ? width / count : width;
+
+  if (spacing >= MIN_NODE_SPACING) {
+    const nodes = Array.from({ length: count }, (_, i): PipelineNodeLayout => {
+      const isEnd = i === 0 || i === count - 1;
+      const cy = isEnd ? ROW_MIDDLE : i % 2 === 1 ? ROW_TOP : ROW_BOTTOM;
+      const cx = (i + 0.5) * spacing;
+      const above = cy === ROW_TOP;
+      return { cx, cy, labelX: cx, labelY: above ? cy - 40 : cy + 50, labelPosition: above ? 'above' : 'below', labelMaxWidth: spacing - 12 };
+    });
+    return {
+      orientation: 'horizontal',
+      width,
+      height: HORIZONTAL_HEIGHT,
+      viewBox: `0 0 ${width} ${HORIZONTAL_HEIGHT}`,
+      path: curveThrough(nodes, 'horizontal'),
+      nodes,
+      fontSize: 14,
+    };
+  }
+
+  const amplitude = Math.min(80, width * 0.2);
+  const labelX = VERTICAL_LEFT + amplitude + 40;
+  const nodes = Array.from({ length: count }, (_, i): PipelineNodeLayout => {
+    const cy = VERTICAL_PADDING + i * VERTICAL_STEP;
+    return {
+      cx: VERTICAL_LEFT + (i % 2 === 1 ? amplitude : 0),
+      cy,
+      labelX,
+      labelY: cy + 5,
+      labelPosition: 'right',
+      labelMaxWidth: Math.max(width - labelX - 8, 0),
+    };
+  });
+  const height = VERTICAL_PADDING * 2 + Math.max(count - 1, 0) * VERTICAL_STEP;
+  return {
+    orientation: 'vertical',
+    width,
+    height,
+    viewBox: `0 0 ${width} ${height}`,
+    path: curveThrough(nodes, 'vertical'),
+    nodes,
+    fontSize: 12,
+  };
+}
+
+// CJK ideographs, kana, hangul and full-width forms take about a full em; there are no spaces between their words.
+const WIDE_CHAR = /[ᄀ-ᅟ⺀-꓏가-힣豈-﫿︰-﹏＀-｠￠-￦]/;
+// Japanese line-breaking rules (kinsoku): these never start a line, the opening brackets never end one.
+const NO_LINE_START = new Set('、。，．・：；！？ー～」』）〉》】ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ');
+const NO_LINE_END = new Set('「『（〈《【');
+
+/** Rough rendered width of `text`; the average glyph of the UI font is a little over half the font size. */
+function estimateTextWidth(text: string, fontSize: number): number {
+  let ems = 0;
+  for (const char of text) ems += WIDE_CHAR.test(char) ? 1 : 0.55;
+  return ems * fontSize;
+}
+
+/**
+ * Candidate two-line splits of `label`: at spaces (which are dropped), after
+ * hyphens and between characters of CJK text, which has no spaces to break at.
+ */
+function lineBreaks(label: string): [string, string][] {
+  const chars = Array.from(label);
+  const breaks: [string, string][] = [];
+  for (let i = 1; i < chars.length; i++) {
+    const before = chars[i - 1];
+    const after = chars[i];
+    if (after === ' ') continue;
+    if (before === ' ') breaks.push([chars.slice(0, i - 1).join('').trimEnd(), chars.slice(i).join('')]);
+    else if (before === '-' || ((WIDE_CHAR.test(before) || WIDE_CHAR.test(after)) && !NO_LINE_START.has(after) && !NO_LINE_END.has(before))) {
+      breaks.push([chars.slice(0, i).join(''), chars.slice(i).join('')]);
+    }
+  }
+  return breaks.filter(([line1, line2]) => line1 && line2);
+}
+
+/**
+ * Breaks a label into at most two lines at the point that balances them best,
+ * once it is wider than roughly `maxWidth` pixels at `fontSize`. Latin text
+ * breaks at spaces and hyphens, CJK text between characters.
+ */
+export function splitLabel(label: string, maxWidth: number, fontSize: number): [string] | [string, string] {
+  if (estimateTextWidth(label, fontSize) <= maxWidth) return [label];
+
+  let best: [string] | [string, string] = [label];
+  let bestWidest = Infinity;
+  for (const [line1, line2] of lineBreaks(label)) {
+    const widest = Math.max(estimateTextWidth(line1, fontSize), estimateTextWidth(line2, fontSize));
+    if (widest < bestWidest) {
+      best = [line1, line2];
+      bestWidest = widest;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,139 @@
+import type React from 'react';
+
+/**
+ * Colors of the colorizer UI. Plain colors must be hex (`#rgb` or `#rrggbb`)
+ * or `rgb()` because they are exposed to Tailwind as RGB channels, which is
+ * what makes opacity modifiers like `bg-accent/20` work; anything else falls
+ * back to the built-in palette of the same color scheme. Glows are any CSS color.
+ */
+export interface ColorizerTheme {
+  name: string;
+  /** Tells the browser how to draw native controls (scrollbars, inputs). */
+  colorScheme: 'dark' | 'light';
+  background: string;
+  /** Dialogs and raised panels. */
+  surface: string;
+  text: {
+    primary: string;
+    secondary: string;
+  };
+  accent: {
+    primary: string;
+    secondary: string;
+    /** Text drawn on top of `primary`. */
+    contrast: string;
+  };
+  glow: {
+    primary: string;
+    secondary: string;
+  };
+  /** Dark inner shadow along the top edge of the component. */
+  vignette: boolean;
+}
+
+export type ThemeName = 'dark' | 'navy' | 'light';
+
+export const THEMES: Record<ThemeName, ColorizerTheme> = {
+  dark: {
+    name: 'dark',
+    colorScheme: 'dark',
+    background: '#000000',
+    surface: '#111827',
+    text: { primary: '#FFFFFF', secondary: '#8892B0' },
+    accent: { primary: '#04D9FF', secondary: '#BD34FE', contrast: '#000000' },
+    glow: { primary: 'rgba(4, 217, 255, 0.5)', secondary: 'rgba(189, 52, 254, 0.5)' },
+    vignette: true,
+  },
+  navy: {
+    name: 'navy',
+    colorScheme: 'dark',
+    background: '#0A192F',
+    surface: '#112240',
+    text: { primary: '#FFFFFF', secondary: '#8892B0' },
+    accent: { primary: '#04D9FF', secondary: '#BD34FE', contrast: '#000000' },
+    glow: { primary: 'rgba(4, 217, 255, 0.5)', secondary: 'rgba(189, 52, 254, 0.5)' },
+    vignette: false,
+  },
+  light: {
+    name: 'light',
+    colorScheme: 'light',
+    background: '#F5F7FA',
+    surface: '#FFFFFF',
+    text: { primary: '#0F172A', secondary: '#475569' },
+    accent: { primary: '#0077B6', secondary: '#9333EA', contrast: '#FFFFFF' },
+    glow: { primary: 'rgba(0, 119, 182, 0.25)', secondary: 'rgba(147, 51, 234, 0.25)' },
+    vignette: false,
+  },
+};
+
+/** Names used before the theme object existed. */
+const LEGACY_THEME_NAMES: Record<string, ThemeName> = { black: 'dark', blue: 'navy' };
+
+export const isThemeName = (value: unknown): value is ThemeName =>
+  typeof value === 'string' && Object.hasOwn(THEMES, value);
+
+/** Built-in theme by name (legacy 'black' / 'blue' included); custom theme objects pass through. */
+export function resolveTheme(theme: ColorizerTheme | ThemeName | 'black' | 'blue'): ColorizerTheme {
+  if (typeof theme !== 'string') return theme;
+  const name = Object.hasOwn(LEGACY_THEME_NAMES, theme) ? LEGACY_THEME_NAMES[theme] : theme;
+  return isThemeName(name) ? THEMES[name] : THEMES.dark;
+}
+
+/** "r g b" for a hex or rgb()/rgba() color; null for anything else (named colors, CSS variables). */
+function parseChannels(color: string): string | null {
+  // Hosts using the custom element set themes from plain JavaScript, so don't trust the type.
+  if (typeof color !== 'string') return null;
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim())?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.replace(/./g, c => c + c) : hex;
+    return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)).join(' ');
+  }
+  const rgb = /^rgba?\(\s*(\d{1,3})[\s,]+(\d{1,3})[\s,]+(\d{1,3})\s*(?:[,/]\s*[\d.]+%?\s*)?\)$/i.exec(color.trim());
+  if (rgb && rgb.slice(1).every(channel => Number(channel) <= 255)) return rgb.slice(1).map(Number).join(' ');
+  return null;
+}
+
+const warnedColors = new Set<string>();
+
+/** Channels of `color`, or of `fallback` (a built-in hex color) when it can't be parsed. */
+function toChannels(color: string, fallback: string): string {
+  const channels = parseChannels(color);
+  if (channels) return channels;
+  if (!warnedColors.has(color)) {
+    warnedColors.add(color);
+    console.warn(`Theme color "${color}" must be a hex or rgb() color like #04D9FF; using ${fallback} instead.`);
+  }
+  return parseChannels(fallback)!;
+}
+
+/**
+ * CSS custom properties for `theme`, to be set on the element that hosts the
+ * UI. The Tailwind colors `canvas`, `surface`, `fg`, `fg-muted`, `accent`,
+ * `accent-alt` and `on-accent` read them.
+ */
+export function themeVariables(theme: ColorizerTheme): React.CSSProperties {
+  const defaults = theme.colorScheme === 'light' ? THEMES.light : THEMES.dark;
+  return {
+    '--theme-canvas': toChannels(theme.background, defaults.background),
+    '--theme-surface': toChannels(theme.surface, defaults.surface),
+    '--theme-fg': toChannels(theme.text.primary, defaults.text.primary),
+    '--theme-fg-muted': toChannels(theme.text.secondary, defaults.text.secondary),
+    '--theme-accent': toChannels(theme.accent.primary, defaults.accent.primary),
+    '--theme-accent-alt': toChannels(theme.accent.secondary, defaults.accent.secondary),
+    '--theme-on-accent': toChannels(theme.accent.contrast, defaults.accent.contrast),
+    '--theme-glow': theme.glow.primary,
+    '--theme-glow-alt': theme.glow.secondary,
+    colorScheme: theme.colorScheme,
+  } as React.CSSProperties;
+}
+
+/** The theme variables as CSS colors, for SVG attributes and inline styles. */
+export const THEME_COLORS = {
+  canvas: 'rgb(var(--theme-canvas))',
+  fg: 'rgb(var(--theme-fg))',
+  fgMuted: 'rgb(var(--theme-fg-muted))',
+  accent: 'rgb(var(--theme-accent))',
+  accentAlt: 'rgb(var(--theme-accent-alt))',
+  glow: 'var(--theme-glow)',
+  glowAlt: 'var(--theme-glow-alt)',
+};
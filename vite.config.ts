@@ -1,9 +1,12 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `vite build --mode element` builds the <bw-colorizer> custom element as a library.
+    const isElementBuild = mode === 'element';
     return {
       server: {
         port: 3000,
@@ -12,12 +15,30 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.COLORIZER_API_URL': JSON.stringify(env.COLORIZER_API_URL),
+        'process.env.COLORIZER_API_HEADERS': JSON.stringify(env.COLORIZER_API_HEADERS),
+        'process.env.COLORIZER_API_TIMEOUT_MS': JSON.stringify(env.COLORIZER_API_TIMEOUT_MS),
+        // Library builds bundle React, which reads NODE_ENV; app builds get it from Vite.
+        ...(isElementBuild && { 'process.env.NODE_ENV': JSON.stringify('production') }),
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      ...(isElementBuild && {
+        css: {
+          postcss: { plugins: [tailwindcss()] },
+        },
+        build: {
+          outDir: 'dist/element',
+          lib: {
+            entry: path.resolve(__dirname, 'elements/bwColorizer.tsx'),
+            formats: ['es'],
+            fileName: () => 'bw-colorizer.js',
+          },
+        },
+      }),
     };
 });
@@ -0,0 +1,102 @@
+// Rebuilds a full-resolution colorization from the original image's lightness
+// and the backend's (low-resolution) chroma. Runs off the main thread because
+// a 40-megapixel scan takes seconds to walk through.
+import { labToSrgb, srgbToL, srgbToLab } from '../utils/lab';
+
+export interface RecombineRequest {
+  original: ImageBitmap;
+  colorized: ImageBitmap;
+}
+
+export type RecombineResponse = { status: 'done'; blob: Blob } | { status: 'failed'; message: string };
+
+/** The model predicts at 256px; sampling its output above this adds nothing but memory. */
+const CHROMA_MAX_SIDE = 512;
+/** Rows of the full-resolution image converted per getImageData/putImageData round trip. */
+const STRIP_ROWS = 256;
+
+function readChroma(colorized: ImageBitmap) {
+  const scale = Math.min(1, CHROMA_MAX_SIDE / Math.max(colorized.width, colorized.height));
+  const width = Math.max(1, Math.round(colorized.width * scale));
+  const height = Math.max(1, Math.round(colorized.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(colorized, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const a = new Float32Array(width * height);
+  const b = new Float32Array(width * height);
+  const lab = new Float32Array(3);
+  for (let i = 0, p = 0; i < a.length; i++, p += 4) {
+    srgbToLab(data[p], data[p + 1], data[p + 2], lab);
+    a[i] = lab[1];
+    b[i] = lab[2];
+  }
+  return { width, height, a, b };
+}
+
+async function recombine({ original, colorized }: RecombineRequest): Promise<Blob> {
+  const chroma = readChroma(colorized);
+  colorized.close();
+
+  const { width, height } = original;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(original, 0, 0);
+  original.close();
+
+  const sx = chroma.width / width;
+  const sy = chroma.height / height;
+  const rgb = new Uint8ClampedArray(3);
+
+  for (let top = 0; top < height; top += STRIP_ROWS) {
+    const rows = Math.min(STRIP_ROWS, height - top);
+    const strip = ctx.getImageData(0, top, width, rows);
+    const { data } = strip;
+
+    for (let row = 0; row < rows; row++) {
+      // Bilinear sample of the chroma planes, pixel-centre aligned.
+      const cy = Math.min(chroma.height - 1, Math.max(0, (top + row + 0.5) * sy - 0.5));
+      const y0 = Math.floor(cy);
+      const y1 = Math.min(chroma.height - 1, y0 + 1);
+      const fy = cy - y0;
+
+      for (let x = 0; x < width; x++) {
+        const cx = Math.min(chroma.width - 1, Math.max(0, (x + 0.5) * sx - 0.5));
+        const x0 = Math.floor(cx);
+        const x1 = Math.min(chroma.width - 1, x0 + 1);
+        const fx = cx - x0;
+
+        const i00 = y0 * chroma.width + x0;
+        const i01 = y0 * chroma.width + x1;
+        const i10 = y1 * chroma.width + x0;
+        const i11 = y1 * chroma.width + x1;
+        const top0 = chroma.a[i00] + (chroma.a[i01] - chroma.a[i00]) * fx;
+        const bottom0 = chroma.a[i10] + (chroma.a[i11] - chroma.a[i10]) * fx;
+        const top1 = chroma.b[i00] + (chroma.b[i01] - chroma.b[i00]) * fx;
+        const bottom1 = chroma.b[i10] + (chroma.b[i11] - chroma.b[i10]) * fx;
+
+        const p = (row * width + x) * 4;
+        const L = srgbToL(data[p], data[p + 1], data[p + 2]);
+        labToSrgb(L, top0 + (bottom0 - top0) * fy, top1 + (bottom1 - top1) * fy, rgb);
+        data[p] = rgb[0];
+        data[p + 1] = rgb[1];
+        data[p + 2] = rgb[2];
+      }
+    }
+    ctx.putImageData(strip, 0, top);
+  }
+
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+self.onmessage = async (e: MessageEvent<RecombineRequest>) => {
+  let response: RecombineResponse;
+  try {
+    response = { status: 'done', blob: await recombine(e.data) };
+  } catch (err) {
+    response = { status: 'failed', message: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};